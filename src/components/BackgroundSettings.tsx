@@ -0,0 +1,111 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mountain } from "lucide-react";
+import type { MetalSymbol } from "@/lib/indices";
+import { BACKGROUND_CATALOGUE, BackgroundSet } from "@/lib/background";
+
+interface BackgroundSettingsProps {
+  metals: MetalSymbol[]; // elements measured in the dataset
+  selected: BackgroundSet;
+  onSelect: (set: BackgroundSet) => void;
+  referenceElement: MetalSymbol;
+  onReferenceElementChange: (metal: MetalSymbol) => void;
+}
+
+const CUSTOM_BACKGROUND_ID = 'custom';
+const REFERENCE_ELEMENTS: MetalSymbol[] = ['Al', 'Fe', 'Mn'];
+
+const BackgroundSettings = ({ metals, selected, onSelect, referenceElement, onReferenceElementChange }: BackgroundSettingsProps) => {
+  const handleSelect = (id: string) => {
+    const set = BACKGROUND_CATALOGUE.find(s => s.id === id);
+    if (set) {
+      onSelect(set);
+    } else {
+      onSelect({ ...selected, id: CUSTOM_BACKGROUND_ID, name: 'Custom background', source: `User-supplied, based on ${selected.name}`, custom: true });
+    }
+  };
+
+  // Editing any value turns the selection into a user-supplied background
+  const handleValueChange = (metal: MetalSymbol, value: string) => {
+    const parsed = parseFloat(value);
+    if (value !== '' && (isNaN(parsed) || parsed < 0)) return;
+
+    const values = { ...selected.values };
+    if (value === '') {
+      delete values[metal];
+    } else {
+      values[metal] = parsed;
+    }
+
+    onSelect({
+      id: CUSTOM_BACKGROUND_ID,
+      name: 'Custom background',
+      source: selected.custom ? selected.source : `User-supplied, based on ${selected.name}`,
+      values,
+      unit: selected.unit,
+      custom: true,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Mountain className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">Geochemical Background</Label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={selected.id} onValueChange={handleSelect}>
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKGROUND_CATALOGUE.map(set => (
+              <SelectItem key={set.id} value={set.id}>{set.name} ({set.source}, {set.unit})</SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_BACKGROUND_ID}>Custom background</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="reference-element" className="text-sm whitespace-nowrap">EF reference element</Label>
+          <Select value={referenceElement} onValueChange={(value) => onReferenceElementChange(value as MetalSymbol)}>
+            <SelectTrigger id="reference-element" className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REFERENCE_ELEMENTS.map(metal => (
+                <SelectItem key={metal} value={metal}>{metal}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">
+          Background values Bn ({selected.unit}) — in the same unit as the samples, e.g. the local groundwater baseline
+        </Label>
+        <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+          {metals.map((metal) => (
+            <div key={metal} className="flex items-center gap-2">
+              <Label htmlFor={`background-${metal}`} className="w-6 text-sm">{metal}</Label>
+              <Input
+                id={`background-${metal}`}
+                type="number"
+                min={0}
+                step="any"
+                value={selected.values[metal] ?? ''}
+                placeholder="—"
+                onChange={(e) => handleValueChange(metal, e.target.value)}
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundSettings;
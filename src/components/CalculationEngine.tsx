@@ -1,182 +1,245 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Calculator, Play, CheckCircle, Info, Settings } from "lucide-react";
+import { AlertCircle, Calculator, Play, CheckCircle, Info, Settings, X } from "lucide-react";
 import { WaterSample } from "./Dashboard";
 import { useToast } from "@/hooks/use-toast";
+import HealthRiskSettings from "./HealthRiskSettings";
+import MonteCarloSettings from "./MonteCarloSettings";
+import StandardsSelector from "./StandardsSelector";
+import BackgroundSettings from "./BackgroundSettings";
+import ToxicResponseSettings from "./ToxicResponseSettings";
+import ClassificationEditor from "./ClassificationEditor";
+import { DEFAULT_HEALTH_RISK_PARAMETERS, HealthRiskParameters } from "@/lib/health-risk";
+import {
+  CalculationOptions,
+  ClassificationSchemes,
+  DEFAULT_CALCULATION_OPTIONS,
+  DEFAULT_CLASSIFICATION_SCHEMES,
+  HPI_METHODS,
+  HpiMethod,
+  INDEX_DEFINITIONS,
+  IndexId,
+  MetalSymbol,
+  OverallCategoryRule,
+  isSchemeValid,
+} from "@/lib/indices";
+import { BackgroundSet, DEFAULT_BACKGROUND_SET, backgroundProblem, backgroundReference } from "@/lib/background";
+import { DEFAULT_STANDARD_SET, StandardSet, referenceValues, standardReference } from "@/lib/standards";
+import { BDL_POLICIES, BdlPolicy, DEFAULT_BDL_POLICY, countCensored, resolveConcentrations } from "@/lib/bdl";
+import { DEFAULT_MONTE_CARLO_CONFIG, MonteCarloConfig, MonteCarloRun, runMonteCarlo } from "@/lib/uncertainty";
+import { CalculationResult, CalculationRun, CalculationSettings, SampleFailure, runCalculation } from "@/lib/calculation";
+import { APP_VERSION, RunDraft } from "@/lib/runs";
+import { SampleStore, forEachSample, storeElements } from "@/lib/store";
 
 interface CalculationEngineProps {
-  samples: WaterSample[];
-  onCalculationComplete: (calculatedSamples: WaterSample[]) => void;
+  samples: SampleStore;
+  onCalculationComplete: (run: RunDraft) => void;
 }
 
-// WHO/EPA Standard values for heavy metals in drinking water (mg/L)
-const WHO_STANDARDS = {
-  As: 0.01,   // Arsenic
-  Cd: 0.003,  // Cadmium
-  Cr: 0.05,   // Chromium
-  Cu: 2.0,    // Copper
-  Fe: 0.3,    // Iron
-  Mn: 0.1,    // Manganese
-  Ni: 0.07,   // Nickel
-  Pb: 0.01,   // Lead
-  Zn: 3.0     // Zinc
-};
-
-const METAL_WEIGHTS = {
-  As: 1.0,
-  Cd: 1.0,
-  Cr: 1.0,
-  Cu: 1.0,
-  Fe: 1.0,
-  Mn: 1.0,
-  Ni: 1.0,
-  Pb: 1.0,
-  Zn: 1.0
-};
+const MAX_LISTED_FAILURES = 10;
 
 const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngineProps) => {
-  const [selectedIndices, setSelectedIndices] = useState({
+  const [selectedIndices, setSelectedIndices] = useState<Record<IndexId, boolean>>({
     hpi: true,
     pli: true,
     cf: false,
+    hei: false,
+    cd: false,
+    nemerow: false,
+    mi: false,
+    igeo: false,
+    ef: false,
+    ri: false,
   });
+  const [options, setOptions] = useState<CalculationOptions>(DEFAULT_CALCULATION_OPTIONS);
+  // k as typed; options only take it once it reads as a positive number
+  const [kDraft, setKDraft] = useState(String(DEFAULT_CALCULATION_OPTIONS.proportionalityConstant));
+  const [standardSet, setStandardSet] = useState<StandardSet>(DEFAULT_STANDARD_SET);
+  const [backgroundSet, setBackgroundSet] = useState<BackgroundSet>(DEFAULT_BACKGROUND_SET);
+  const [schemes, setSchemes] = useState<ClassificationSchemes>(DEFAULT_CLASSIFICATION_SCHEMES);
+  const [categoryRule, setCategoryRule] = useState<OverallCategoryRule>({ type: 'worst-of' });
+  const [bdlPolicy, setBdlPolicy] = useState<BdlPolicy>(DEFAULT_BDL_POLICY);
+  const [includeHealthRisk, setIncludeHealthRisk] = useState(false);
+  const [healthRiskParameters, setHealthRiskParameters] = useState<HealthRiskParameters>(DEFAULT_HEALTH_RISK_PARAMETERS);
+  const [includeMonteCarlo, setIncludeMonteCarlo] = useState(false);
+  const [monteCarloConfig, setMonteCarloConfig] = useState<MonteCarloConfig>(DEFAULT_MONTE_CARLO_CONFIG);
   const [isCalculating, setIsCalculating] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [completed, setCompleted] = useState(0);
+  const [failures, setFailures] = useState<SampleFailure[]>([]);
+  const [simulationProgress, setSimulationProgress] = useState<number | null>(null);
+  const simulationRef = useRef<MonteCarloRun | null>(null);
+  const calculationRef = useRef<(CalculationRun & { cancelled?: boolean }) | null>(null);
   const { toast } = useToast();
 
-  const availableIndices = [
-    {
-      id: 'hpi',
-      name: 'Heavy Metal Pollution Index (HPI)',
-      description: 'Composite index rating the overall quality of water',
-      recommended: true
-    },
-    {
-      id: 'pli',
-      name: 'Pollution Load Index (PLI)',
-      description: 'Provides comparative means for assessing the degree of heavy metal pollution',
-      recommended: true
-    },
-    {
-      id: 'cf',
-      name: 'Contamination Factor (CF)',
-      description: 'Compares current and pre-industrial metal concentrations',
-      recommended: false
-    }
-  ];
-
-  const calculateHPI = (metals: any): number => {
-    let weightedSum = 0;
-    let totalWeight = 0;
-
-    Object.entries(metals).forEach(([metal, concentration]) => {
-      const standard = WHO_STANDARDS[metal as keyof typeof WHO_STANDARDS];
-      const weight = METAL_WEIGHTS[metal as keyof typeof METAL_WEIGHTS];
-      
-      if (standard && weight) {
-        const subIndex = (concentration as number / standard) * 100;
-        weightedSum += weight * subIndex;
-        totalWeight += weight;
-      }
-    });
+  const performCalculations = async () => {
+    setIsCalculating(true);
+    setCompleted(0);
+    setFailures([]);
 
-    return totalWeight > 0 ? weightedSum / totalWeight : 0;
-  };
+    const settings: CalculationSettings = {
+      indices: selectedIds,
+      options: { ...options, standards: referenceValues(standardSet), background: backgroundSet.values },
+      schemes,
+      categoryRule,
+      bdlPolicy,
+      standard: standardReference(standardSet),
+      background: usesBackground ? backgroundReference(backgroundSet) : undefined,
+      healthRiskParameters: includeHealthRisk ? healthRiskParameters : undefined,
+    };
+    const run = runCalculation({ samples, settings }, setCompleted);
+    calculationRef.current = run;
 
-  const calculatePLI = (metals: any): number => {
-    let product = 1;
-    let count = 0;
+    try {
+      await completeRun(run, settings);
+    } finally {
+      setIsCalculating(false);
+    }
+  };
 
-    Object.entries(metals).forEach(([metal, concentration]) => {
-      const standard = WHO_STANDARDS[metal as keyof typeof WHO_STANDARDS];
-      if (standard) {
-        const cf = (concentration as number) / standard;
-        product *= cf;
-        count++;
-      }
-    });
+  // Waits for the worker, adds the Monte Carlo stage if selected and hands the run over for the history
+  const completeRun = async (run: CalculationRun, settings: CalculationSettings) => {
+    let outcome: CalculationResult;
+    try {
+      outcome = await run.promise;
+    } catch (error) {
+      toast({
+        title: calculationRef.current?.cancelled ? "Calculation cancelled" : "Calculation failed",
+        description: calculationRef.current?.cancelled
+          ? "The previous results are unchanged"
+          : error instanceof Error ? error.message : String(error),
+        variant: calculationRef.current?.cancelled ? undefined : "destructive",
+      });
+      return;
+    } finally {
+      calculationRef.current = null;
+    }
 
-    return count > 0 ? Math.pow(product, 1 / count) : 0;
-  };
+    setFailures(outcome.failures);
+    const calculated = outcome.samples.size - outcome.failures.length;
+    if (calculated === 0) {
+      toast({
+        title: "Calculation failed",
+        description: "No sample could be calculated; see the errors below",
+        variant: "destructive",
+      });
+      return;
+    }
 
-  const calculateCF = (metals: any): number => {
-    let totalCF = 0;
-    let count = 0;
+    const calculatedSamples: WaterSample[] = [];
+    forEachSample(outcome.samples, sample => {
+      if (sample.hmpiResults) calculatedSamples.push(sample);
+    });
+    const simulated = includeMonteCarlo && await performMonteCarlo(calculatedSamples, settings.options);
 
-    Object.entries(metals).forEach(([metal, concentration]) => {
-      const standard = WHO_STANDARDS[metal as keyof typeof WHO_STANDARDS];
-      if (standard) {
-        totalCF += (concentration as number) / standard;
-        count++;
-      }
+    onCalculationComplete({
+      createdAt: new Date().toISOString(),
+      appVersion: APP_VERSION,
+      datasetHash: outcome.datasetHash,
+      settings,
+      monteCarlo: simulated ? monteCarloConfig : undefined,
+      samples: outcome.samples,
+      failures: outcome.failures,
     });
 
-    return count > 0 ? totalCF / count : 0;
+    toast({
+      title: "Calculations completed",
+      description: `Processed ${calculated} samples` +
+        (outcome.failures.length > 0 ? `; ${outcome.failures.length} could not be calculated` : ''),
+      variant: outcome.failures.length > 0 ? "destructive" : undefined,
+    });
   };
 
-  const categorizeWaterQuality = (hpi: number, pli: number): 'excellent' | 'good' | 'moderate' | 'poor' | 'unsuitable' => {
-    if (hpi < 25 && pli < 1) return 'excellent';
-    if (hpi < 50 && pli < 2) return 'good';
-    if (hpi < 75 && pli < 3) return 'moderate';
-    if (hpi < 100 && pli < 5) return 'poor';
-    return 'unsuitable';
+  const handleCancelCalculation = () => {
+    if (!calculationRef.current) return;
+    calculationRef.current.cancelled = true;
+    calculationRef.current.cancel();
   };
 
-  const performCalculations = async () => {
-    setIsCalculating(true);
-    setProgress(0);
-
-    const calculatedSamples = samples.map((sample, index) => {
-      // Simulate processing time
-      setTimeout(() => {
-        setProgress((index + 1) / samples.length * 100);
-      }, index * 50);
-
-      const hpi = selectedIndices.hpi ? calculateHPI(sample.metals) : 0;
-      const pli = selectedIndices.pli ? calculatePLI(sample.metals) : 0;
-      const cf = selectedIndices.cf ? calculateCF(sample.metals) : 0;
-      
-      const qualityCategory = categorizeWaterQuality(hpi, pli);
-
-      return {
-        ...sample,
-        hmpiResults: {
-          hpi,
-          pli,
-          cf,
-          qualityCategory
-        }
-      };
-    });
-
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  // Attaches P5/P50/P95 summaries to each sample; a cancelled or failed run keeps the deterministic
+  // results. Resolves to whether the simulation completed.
+  const performMonteCarlo = async (calculatedSamples: WaterSample[], runOptions: CalculationOptions): Promise<boolean> => {
+    setSimulationProgress(0);
+    const run = runMonteCarlo(
+      {
+        samples: calculatedSamples.map(({ id, metals, censored }) => ({
+          id,
+          metals: resolveConcentrations(metals, censored, bdlPolicy)
+        })),
+        config: monteCarloConfig,
+        options: runOptions,
+        healthRiskParameters: includeHealthRisk ? healthRiskParameters : undefined,
+      },
+      (completed) => setSimulationProgress(completed / calculatedSamples.length * 100)
+    );
+    simulationRef.current = run;
 
-    setIsCalculating(false);
-    setProgress(100);
-    
-    onCalculationComplete(calculatedSamples);
-    
-    toast({
-      title: "Calculations completed",
-      description: `Successfully processed ${samples.length} samples`,
-    });
+    try {
+      const results = await run.promise;
+      calculatedSamples.forEach((sample, index) => {
+        sample.uncertainty = results[index];
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Monte Carlo simulation stopped",
+        description: error instanceof Error ? error.message : "Uncertainty results are not available",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      simulationRef.current = null;
+      setSimulationProgress(null);
+    }
   };
 
-  const handleIndexToggle = (indexId: string, checked: boolean) => {
+  const handleIndexToggle = (indexId: IndexId, checked: boolean) => {
     setSelectedIndices(prev => ({
       ...prev,
       [indexId]: checked
     }));
   };
 
-  const selectedCount = Object.values(selectedIndices).filter(Boolean).length;
+  const handleKChange = (value: string) => {
+    setKDraft(value);
+    const k = Number(value);
+    if (value.trim() !== '' && isFinite(k) && k > 0) {
+      setOptions(prev => ({ ...prev, proportionalityConstant: k }));
+    }
+  };
+
+  const handleIdealValueChange = (metal: MetalSymbol, value: string) => {
+    const ideal = parseFloat(value);
+    setOptions(prev => ({
+      ...prev,
+      idealValues: { ...prev.idealValues, [metal]: isNaN(ideal) ? 0 : ideal }
+    }));
+  };
+
+  const selectedIds = INDEX_DEFINITIONS.map(index => index.id).filter(id => selectedIndices[id]);
+  const selectedCount = selectedIds.length;
+  const schemesValid = selectedIds.every(id => isSchemeValid(schemes[id]));
+  // Both walk the whole dataset, so they are only redone when it changes
+  const datasetMetals = useMemo(() => storeElements(samples), [samples]);
+  const kValid = kDraft.trim() !== '' && isFinite(Number(kDraft)) && Number(kDraft) > 0;
+  const kIssue = selectedIndices.hpi && options.hpiMethod === 'mohan' && !kValid;
+  const usesBackground = selectedIndices.igeo || selectedIndices.ef || selectedIndices.ri;
+  const backgroundIssue = usesBackground ? backgroundProblem(backgroundSet, datasetMetals) : undefined;
+  const censoredCount = useMemo(() => {
+    let count = 0;
+    forEachSample(samples, sample => {
+      count += countCensored(sample.censored);
+    });
+    return count;
+  }, [samples]);
 
   return (
     <div className="space-y-6">
@@ -198,11 +261,11 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
               <Label className="text-base font-medium">Available Indices</Label>
             </div>
             
-            {availableIndices.map((index) => (
+            {INDEX_DEFINITIONS.map((index) => (
               <div key={index.id} className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 transition-colors">
                 <Checkbox
                   id={index.id}
-                  checked={selectedIndices[index.id as keyof typeof selectedIndices]}
+                  checked={selectedIndices[index.id]}
                   onCheckedChange={(checked) => handleIndexToggle(index.id, checked as boolean)}
                   className="mt-1"
                 />
@@ -225,28 +288,231 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
             ))}
           </div>
 
+          <StandardsSelector selected={standardSet} onSelect={setStandardSet} />
+
+          {/* HPI Formulation */}
+          {selectedIndices.hpi && (
+            <div className="space-y-4">
+              <Label className="text-base font-medium">HPI Formulation</Label>
+              <RadioGroup
+                value={options.hpiMethod}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, hpiMethod: value as HpiMethod }))}
+              >
+                {(Object.keys(HPI_METHODS) as HpiMethod[]).map((method) => (
+                  <div key={method} className="flex items-start space-x-3">
+                    <RadioGroupItem value={method} id={`hpi-${method}`} className="mt-1" />
+                    <div className="space-y-1">
+                      <Label htmlFor={`hpi-${method}`} className="text-sm font-medium cursor-pointer">
+                        {HPI_METHODS[method].name}
+                      </Label>
+                      <p className="text-sm text-muted-foreground">{HPI_METHODS[method].formula}</p>
+                    </div>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              {options.hpiMethod === 'mohan' && (
+                <div className="p-4 border rounded-lg space-y-4">
+                  <div className="flex items-center gap-4">
+                    <Label htmlFor="hpi-k" className="text-sm whitespace-nowrap">Proportionality constant (k)</Label>
+                    <Input
+                      id="hpi-k"
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={kDraft}
+                      onChange={(e) => handleKChange(e.target.value)}
+                      className="w-28"
+                    />
+                    {!kValid && <span className="text-sm text-destructive">k must be a number greater than 0</span>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm">Ideal values Ii (mg/L)</Label>
+                    <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                      {datasetMetals.map((metal) => (
+                        <div key={metal} className="flex items-center gap-2">
+                          <Label htmlFor={`ideal-${metal}`} className="w-6 text-sm">{metal}</Label>
+                          <Input
+                            id={`ideal-${metal}`}
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={options.idealValues[metal] ?? 0}
+                            onChange={(e) => handleIdealValueChange(metal, e.target.value)}
+                            className="h-8"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedCount > 0 && (
+            <ClassificationEditor
+              indices={selectedIds}
+              schemes={schemes}
+              onSchemesChange={setSchemes}
+              rule={categoryRule}
+              onRuleChange={setCategoryRule}
+            />
+          )}
+
+          {/* Non-detects */}
+          <div className="space-y-2">
+            <Label htmlFor="bdl-policy" className="text-base font-medium">Below Detection Limit Values</Label>
+            <div className="flex flex-wrap items-center gap-4">
+              <Select value={bdlPolicy} onValueChange={(value) => setBdlPolicy(value as BdlPolicy)}>
+                <SelectTrigger id="bdl-policy" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BDL_POLICIES) as BdlPolicy[]).map(policy => (
+                    <SelectItem key={policy} value={policy}>{BDL_POLICIES[policy].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {BDL_POLICIES[bdlPolicy].description}
+                {' '}({censoredCount} non-detect{censoredCount === 1 ? '' : 's'} in the dataset)
+              </p>
+            </div>
+          </div>
+
+          {/* Health Risk */}
+          <div className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+            <Checkbox
+              id="health-risk"
+              checked={includeHealthRisk}
+              onCheckedChange={(checked) => setIncludeHealthRisk(checked as boolean)}
+              className="mt-1"
+            />
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="health-risk" className="text-sm font-medium cursor-pointer">
+                Human Health Risk Assessment (HQ, HI, CR)
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                USEPA hazard quotients and lifetime cancer risk for adults and children via ingestion and dermal contact
+              </p>
+            </div>
+          </div>
+
+          {/* Monte Carlo */}
+          <div className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+            <Checkbox
+              id="monte-carlo"
+              checked={includeMonteCarlo}
+              onCheckedChange={(checked) => setIncludeMonteCarlo(checked as boolean)}
+              className="mt-1"
+            />
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="monte-carlo" className="text-sm font-medium cursor-pointer">
+                Monte Carlo Uncertainty Analysis
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Seeded simulation of concentration and exposure uncertainty, reporting P5/P50/P95 and exceedance probabilities
+              </p>
+            </div>
+          </div>
+
+          {usesBackground && (
+            <BackgroundSettings
+              metals={datasetMetals}
+              selected={backgroundSet}
+              onSelect={setBackgroundSet}
+              referenceElement={options.referenceElement}
+              onReferenceElementChange={(referenceElement) => setOptions(prev => ({ ...prev, referenceElement }))}
+            />
+          )}
+
+          {backgroundIssue && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Igeo, EF and RI can't be calculated: {backgroundIssue}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {selectedIndices.ri && (
+            <ToxicResponseSettings
+              metals={datasetMetals}
+              factors={options.toxicResponseFactors}
+              onChange={(toxicResponseFactors) => setOptions(prev => ({ ...prev, toxicResponseFactors }))}
+            />
+          )}
+
           {/* Sample Information */}
           <Alert>
             <Info className="h-4 w-4" />
             <AlertDescription>
               <div className="space-y-1">
-                <div><strong>Samples to process:</strong> {samples.length}</div>
+                <div><strong>Samples to process:</strong> {samples.size}</div>
                 <div><strong>Selected indices:</strong> {selectedCount}</div>
-                <div><strong>Standards:</strong> WHO/EPA drinking water guidelines</div>
+                <div><strong>Health risk assessment:</strong> {includeHealthRisk ? 'Enabled' : 'Disabled'}</div>
+                <div>
+                  <strong>Monte Carlo:</strong>{' '}
+                  {includeMonteCarlo ? `${monteCarloConfig.iterations} iterations, seed ${monteCarloConfig.seed}` : 'Disabled'}
+                </div>
+                <div><strong>Standards:</strong> {standardSet.name} ({standardSet.version})</div>
+                <div><strong>Non-detects:</strong> {censoredCount} ({BDL_POLICIES[bdlPolicy].name})</div>
               </div>
             </AlertDescription>
           </Alert>
 
           {/* Calculation Progress */}
-          {isCalculating && (
+          {isCalculating && simulationProgress === null && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Processing samples...</Label>
-                <span className="text-sm text-muted-foreground">
-                  {Math.round(progress)}%
-                </span>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {completed} of {samples.size}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={handleCancelCalculation}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+              <Progress value={(completed / samples.size) * 100} className="w-full" />
+            </div>
+          )}
+
+          {failures.length > 0 && !isCalculating && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <div className="font-medium mb-1">{failures.length} samples could not be calculated</div>
+                <ul className="text-sm space-y-1">
+                  {failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                    <li key={failure.id}><strong>{failure.id}:</strong> {failure.message}</li>
+                  ))}
+                </ul>
+                {failures.length > MAX_LISTED_FAILURES && (
+                  <div className="text-sm mt-1">... and {failures.length - MAX_LISTED_FAILURES} more, noted in the exported report</div>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {simulationProgress !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Running Monte Carlo simulation...</Label>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {Math.round(simulationProgress)}%
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => simulationRef.current?.cancel()}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
-              <Progress value={progress} className="w-full" />
+              <Progress value={simulationProgress} className="w-full" />
             </div>
           )}
 
@@ -254,7 +520,7 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
           <div className="flex gap-4 pt-4">
             <Button
               onClick={performCalculations}
-              disabled={isCalculating || selectedCount === 0}
+              disabled={isCalculating || selectedCount === 0 || !schemesValid || backgroundIssue !== undefined || kIssue}
               size="lg"
               className="flex-1"
             >
@@ -271,6 +537,18 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
         </CardContent>
       </Card>
 
+      {includeHealthRisk && (
+        <HealthRiskSettings metals={datasetMetals} parameters={healthRiskParameters} onChange={setHealthRiskParameters} />
+      )}
+
+      {includeMonteCarlo && (
+        <MonteCarloSettings
+          config={monteCarloConfig}
+          onChange={setMonteCarloConfig}
+          includeExposure={includeHealthRisk}
+        />
+      )}
+
       {/* Method Information */}
       <Card>
         <CardHeader>
@@ -284,7 +562,9 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
             <div className="space-y-2">
               <h4 className="font-medium text-primary">Heavy Metal Pollution Index (HPI)</h4>
               <p className="text-sm text-muted-foreground">
-                HPI = Σ(Wi × Qi) / ΣWi, where Wi is the weight and Qi is the quality rating
+                HPI = Σ(Wi × Qi) / ΣWi, where Wi = k / Si is the unit weight and
+                Qi = |Mi − Ii| / (Si − Ii) × 100 is the sub-index of the monitored value Mi
+                against the standard Si and ideal value Ii
               </p>
             </div>
             <div className="space-y-2">
@@ -293,6 +573,48 @@ const CalculationEngine = ({ samples, onCalculationComplete }: CalculationEngine
                 PLI = (CF1 × CF2 × ... × CFn)^(1/n), where CF is contamination factor
               </p>
             </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Heavy Metal Evaluation Index (HEI)</h4>
+              <p className="text-sm text-muted-foreground">
+                HEI = Σ(Hc / Hmac), where Hc is the monitored value and Hmac the maximum admissible concentration
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Degree of Contamination (Cd)</h4>
+              <p className="text-sm text-muted-foreground">
+                Cd = Σ Cfi, where Cfi = (Ci / Si) − 1 is the contamination factor of each metal
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Nemerow Pollution Index (PN)</h4>
+              <p className="text-sm text-muted-foreground">
+                PN = √((Pavg² + Pmax²) / 2), where Pi = Ci / Si is the single-factor index
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Metal Index (MI)</h4>
+              <p className="text-sm text-muted-foreground">
+                MI = Σ(Ci / MACi), where MACi is the maximum allowed concentration
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Geo-accumulation Index (Igeo)</h4>
+              <p className="text-sm text-muted-foreground">
+                Igeo = log2(Cn / 1.5 Bn), where Bn is the background in the sample unit, for water the local groundwater baseline, and 1.5 absorbs natural variation
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Enrichment Factor (EF)</h4>
+              <p className="text-sm text-muted-foreground">
+                EF = (Cx / Cref)sample / (Bx / Bref)background, normalised to a reference element such as Fe or Mn
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium text-primary">Potential Ecological Risk Index (RI)</h4>
+              <p className="text-sm text-muted-foreground">
+                RI = Σ Er, where Er = Tr × Cf is the risk of each metal, Tr its toxic response factor and Cf = Ci / Bi
+              </p>
+            </div>
           </div>
           
           <div className="mt-4 p-4 bg-muted/50 rounded-lg">
@@ -0,0 +1,169 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Layers, RotateCcw } from "lucide-react";
+import {
+  ClassificationSchemes,
+  DEFAULT_CLASSIFICATION_SCHEMES,
+  INDEX_REGISTRY,
+  IndexId,
+  OverallCategoryRule,
+  isSchemeValid,
+} from "@/lib/indices";
+
+interface ClassificationEditorProps {
+  indices: IndexId[]; // selected indices, in display order
+  schemes: ClassificationSchemes;
+  onSchemesChange: (schemes: ClassificationSchemes) => void;
+  rule: OverallCategoryRule;
+  onRuleChange: (rule: OverallCategoryRule) => void;
+}
+
+const CATEGORY_BADGE_CLASSES = {
+  excellent: 'bg-excellent text-excellent-foreground',
+  good: 'bg-good text-good-foreground',
+  moderate: 'bg-moderate text-moderate-foreground',
+  poor: 'bg-poor text-poor-foreground',
+  unsuitable: 'bg-unsuitable text-unsuitable-foreground'
+};
+
+const ClassificationEditor = ({ indices, schemes, onSchemesChange, rule, onRuleChange }: ClassificationEditorProps) => {
+  const handleUpperChange = (id: IndexId, bandIndex: number, value: string) => {
+    const scheme = schemes[id].map((band, i) => (i === bandIndex ? { ...band, upper: parseFloat(value) } : band));
+    onSchemesChange({ ...schemes, [id]: scheme });
+  };
+
+  const handleReset = (id: IndexId) => {
+    onSchemesChange({ ...schemes, [id]: DEFAULT_CLASSIFICATION_SCHEMES[id] });
+  };
+
+  const handleRuleTypeChange = (type: OverallCategoryRule['type']) => {
+    onRuleChange(type === 'custom' ? { type, indices: indices.slice(0, 1) } : { type });
+  };
+
+  const handleCustomToggle = (id: IndexId, checked: boolean) => {
+    if (rule.type !== 'custom') return;
+    onRuleChange({
+      type: 'custom',
+      indices: checked ? [...rule.indices, id] : rule.indices.filter(i => i !== id)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">Classification</Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Overall quality category</Label>
+        <RadioGroup value={rule.type} onValueChange={(value) => handleRuleTypeChange(value as OverallCategoryRule['type'])}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="worst-of" id="rule-worst-of" />
+            <Label htmlFor="rule-worst-of" className="text-sm font-normal cursor-pointer">
+              Worst class among all selected indices
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="hpi-only" id="rule-hpi-only" disabled={!indices.includes('hpi')} />
+            <Label htmlFor="rule-hpi-only" className="text-sm font-normal cursor-pointer">
+              HPI class only
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="custom" id="rule-custom" />
+            <Label htmlFor="rule-custom" className="text-sm font-normal cursor-pointer">
+              Worst class among chosen indices
+            </Label>
+          </div>
+        </RadioGroup>
+        {rule.type === 'custom' && (
+          <div className="flex flex-wrap gap-4 pl-6">
+            {indices.map(id => (
+              <div key={id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`rule-${id}`}
+                  checked={rule.indices.includes(id)}
+                  onCheckedChange={(checked) => handleCustomToggle(id, checked as boolean)}
+                />
+                <Label htmlFor={`rule-${id}`} className="text-sm font-normal cursor-pointer">
+                  {id.toUpperCase()}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Accordion type="multiple" className="border rounded-lg px-4">
+        {indices.map(id => {
+          const scheme = schemes[id];
+          const valid = isSchemeValid(scheme);
+          return (
+            <AccordionItem key={id} value={id}>
+              <AccordionTrigger className="text-sm">
+                <span className="flex items-center gap-2">
+                  {INDEX_REGISTRY[id].name}
+                  {!valid && <AlertCircle className="h-4 w-4 text-destructive" />}
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Class</TableHead>
+                      <TableHead>From</TableHead>
+                      <TableHead>Below</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {scheme.map((band, bandIndex) => (
+                      <TableRow key={band.label}>
+                        <TableCell>
+                          <Badge className={`text-xs ${CATEGORY_BADGE_CLASSES[band.category]}`}>{band.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {bandIndex === 0 ? '—' : scheme[bandIndex - 1].upper}
+                        </TableCell>
+                        <TableCell>
+                          {bandIndex === scheme.length - 1 ? (
+                            <span className="text-muted-foreground">and above</span>
+                          ) : (
+                            <Input
+                              type="number"
+                              step="any"
+                              value={isNaN(band.upper) ? '' : band.upper}
+                              onChange={(e) => handleUpperChange(id, bandIndex, e.target.value)}
+                              className="h-8 w-28"
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="flex items-center justify-between">
+                  {valid ? <span /> : (
+                    <span className="text-sm text-destructive">Thresholds must increase from one class to the next</span>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleReset(id)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reset
+                  </Button>
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+};
+
+export default ClassificationEditor;
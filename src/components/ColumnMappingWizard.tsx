@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, ArrowRight, Columns3, Save, X } from "lucide-react";
+import { ELEMENT_CATALOGUE } from "@/lib/elements";
+import { METADATA_FIELDS, MetadataField } from "@/lib/metadata";
+import {
+  ColumnMapping,
+  MappingTarget,
+  MappingTemplate,
+  SAMPLE_FIELDS,
+  SampleField,
+  isMetalTarget,
+  validateMapping,
+} from "@/lib/mapping";
+import { CONCENTRATION_UNITS, ColumnUnit, ConcentrationUnit } from "@/lib/units";
+
+interface ColumnMappingWizardProps {
+  columns: string[];
+  rows: Record<string, string>[]; // data rows, used for example values
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  units: Record<string, ColumnUnit>; // detected unit per element column
+  unitOverrides: Record<string, ConcentrationUnit>;
+  onUnitChange: (column: string, unit: ConcentrationUnit) => void;
+  template?: MappingTemplate; // template applied to this file, if any
+  onSaveTemplate: (name: string) => void;
+  onApply: () => void;
+  isApplying?: boolean; // a large file is being read with this mapping
+  onCancel: () => void;
+}
+
+const UNIT_OPTIONS = Object.keys(CONCENTRATION_UNITS) as ConcentrationUnit[];
+
+const UNIT_SOURCE_LABELS: Record<ColumnUnit['source'], string> = {
+  header: 'from header',
+  'units-row': 'from units row',
+  default: 'default',
+};
+
+const ColumnMappingWizard = ({
+  columns,
+  rows,
+  mapping,
+  onMappingChange,
+  units,
+  unitOverrides,
+  onUnitChange,
+  template,
+  onSaveTemplate,
+  onApply,
+  isApplying,
+  onCancel,
+}: ColumnMappingWizardProps) => {
+  const [templateName, setTemplateName] = useState(template?.name ?? '');
+  const errors = validateMapping(mapping);
+
+  const exampleValues = (column: string) =>
+    rows.slice(0, 3).map(row => row[column]).filter(Boolean).join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Columns3 className="h-5 w-5 text-primary" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          Matches were suggested from the column headers; correct any that are wrong
+          {template && <> · Template applied: <Badge variant="secondary">{template.name}</Badge></>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Example values</TableHead>
+                <TableHead>Read as</TableHead>
+                <TableHead>Unit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {columns.map(column => {
+                const target = mapping[column] ?? 'ignore';
+                const unit = units[column];
+                return (
+                  <TableRow key={column}>
+                    <TableCell className="font-medium">{column}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-48 truncate">
+                      {exampleValues(column) || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={target}
+                        onValueChange={(value) => onMappingChange({ ...mapping, [column]: value as MappingTarget })}
+                      >
+                        <SelectTrigger className="h-8 w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ignore">Ignore</SelectItem>
+                          <SelectGroup>
+                            <SelectLabel>Sample fields</SelectLabel>
+                            {(Object.keys(SAMPLE_FIELDS) as SampleField[]).map(field => (
+                              <SelectItem key={field} value={field}>{SAMPLE_FIELDS[field].label}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>Metadata</SelectLabel>
+                            {(Object.keys(METADATA_FIELDS) as MetadataField[]).map(field => (
+                              <SelectItem key={field} value={field}>{METADATA_FIELDS[field].label}</SelectItem>
+                            ))}
+                            <SelectItem value="extra">Other metadata (keep as is)</SelectItem>
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>Elements</SelectLabel>
+                            {ELEMENT_CATALOGUE.map(({ symbol, name }) => (
+                              <SelectItem key={symbol} value={symbol}>{name} ({symbol})</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {isMetalTarget(target) && unit ? (
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={unitOverrides[column] ?? unit.unit}
+                            onValueChange={(value) => onUnitChange(column, value as ConcentrationUnit)}
+                          >
+                            <SelectTrigger className="h-8 w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UNIT_OPTIONS.map(option => (
+                                <SelectItem key={option} value={option}>{CONCENTRATION_UNITS[option].label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="text-xs text-muted-foreground">
+                            {unitOverrides[column] ? 'manual' : UNIT_SOURCE_LABELS[unit.source]}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="space-y-1">
+                {errors.map((error) => (
+                  <li key={error} className="text-sm">• {error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              className="h-9 w-56"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onSaveTemplate(templateName.trim())}
+              disabled={templateName.trim() === '' || errors.length > 0}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save as Template
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={onApply} disabled={errors.length > 0 || isApplying}>
+              <ArrowRight className="h-4 w-4 mr-2" />
+              Apply Mapping
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Globe } from "lucide-react";
+import { DATUMS, DatumId, StudyArea, isAmbiguousUtmZone, parseUtmZone, studyAreaError } from "@/lib/geo";
+
+interface CoordinateSettingsProps {
+  datum: DatumId;
+  onDatumChange: (datum: DatumId) => void;
+  utmZone?: string; // shown when UTM columns are mapped without a zone column
+  onUtmZoneChange: (zone: string) => void;
+  studyArea?: StudyArea;
+  onStudyAreaChange: (area: StudyArea | undefined) => void;
+}
+
+const BOUNDS: (keyof StudyArea)[] = ['south', 'west', 'north', 'east'];
+
+const CoordinateSettings = ({
+  datum,
+  onDatumChange,
+  utmZone,
+  onUtmZoneChange,
+  studyArea,
+  onStudyAreaChange,
+}: CoordinateSettingsProps) => {
+  const [bounds, setBounds] = useState<Record<keyof StudyArea, string>>({
+    south: studyArea?.south.toString() ?? '',
+    west: studyArea?.west.toString() ?? '',
+    north: studyArea?.north.toString() ?? '',
+    east: studyArea?.east.toString() ?? '',
+  });
+  const area = Object.fromEntries(BOUNDS.map(bound => [bound, parseFloat(bounds[bound])])) as unknown as StudyArea;
+  const areaError = BOUNDS.some(bound => bounds[bound].trim() !== '') ? studyAreaError(area) : undefined;
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <Globe className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">Coordinates</Label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="datum" className="text-sm">Recorded in</Label>
+          <Select value={datum} onValueChange={(value) => onDatumChange(value as DatumId)}>
+            <SelectTrigger id="datum" className="h-8 w-80">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DATUMS) as DatumId[]).map(id => (
+                <SelectItem key={id} value={id}>
+                  {DATUMS[id].label} · {DATUMS[id].region}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {utmZone !== undefined && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="utm-zone" className="text-sm">UTM zone</Label>
+            <Input
+              id="utm-zone"
+              value={utmZone}
+              onChange={(e) => onUtmZoneChange(e.target.value)}
+              placeholder="e.g. 43N"
+              className="h-8 w-24"
+            />
+            {utmZone.trim() !== '' && !parseUtmZone(utmZone) && (
+              <span className="text-sm text-destructive">Enter a zone number and hemisphere, e.g. 43N</span>
+            )}
+            {isAmbiguousUtmZone(utmZone) && (
+              <span className="text-sm text-destructive">S may be the southern hemisphere or MGRS band S; enter e.g. 43 south or 43 north</span>
+            )}
+          </div>
+        )}
+        <span className="text-sm text-muted-foreground">
+          Positions are converted to WGS 84; DMS values such as 25°36'12"N are read as well
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Study area (WGS 84 decimal degrees)</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          {BOUNDS.map(bound => (
+            <Input
+              key={bound}
+              type="number"
+              step="any"
+              value={bounds[bound]}
+              onChange={(e) => setBounds(prev => ({ ...prev, [bound]: e.target.value }))}
+              placeholder={bound.charAt(0).toUpperCase() + bound.slice(1)}
+              className="h-8 w-28"
+            />
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onStudyAreaChange(area)}
+            disabled={areaError !== undefined || BOUNDS.some(bound => bounds[bound].trim() === '')}
+          >
+            Save Area
+          </Button>
+          {studyArea && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setBounds({ south: '', west: '', north: '', east: '' });
+                onStudyAreaChange(undefined);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+        <p className={areaError ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'}>
+          {areaError ?? 'Samples outside the box are flagged, including points whose latitude and longitude look swapped'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CoordinateSettings;
@@ -1,53 +1,116 @@
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileUp, Calculator, Map, BarChart3, Download, Droplets } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileUp, Calculator, Map, BarChart3, Download, Droplets, History } from "lucide-react";
 import heroImage from "@/assets/hero-image.jpg";
 import DataUpload from "./DataUpload";
 import CalculationEngine from "./CalculationEngine";
 import ResultsVisualization from "./ResultsVisualization";
 import GeospatialMap from "./GeospatialMap";
+import RunHistory from "./RunHistory";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv, resultsTable } from "@/lib/export";
+import { CalculationRun, runCalculation } from "@/lib/calculation";
+import { RunDraft, RunRecord, recordRun } from "@/lib/runs";
+import { EMPTY_STORE, SampleStore, someSample, storeSamples } from "@/lib/store";
 
-export interface WaterSample {
-  id: string;
-  latitude: number;
-  longitude: number;
-  sampleDate: string;
-  metals: {
-    As: number; // Arsenic
-    Cd: number; // Cadmium
-    Cr: number; // Chromium
-    Cu: number; // Copper
-    Fe: number; // Iron
-    Mn: number; // Manganese
-    Ni: number; // Nickel
-    Pb: number; // Lead
-    Zn: number; // Zinc
-  };
-  hmpiResults?: {
-    hpi: number;
-    pli: number;
-    cf: number;
-    qualityCategory: 'excellent' | 'good' | 'moderate' | 'poor' | 'unsuitable';
-  };
-}
+// The sample types belong to the library; re-exported for the components that import them from here
+export type { HMPIResults, WaterSample } from "@/lib/samples";
 
 const Dashboard = () => {
-  const [samples, setSamples] = useState<WaterSample[]>([]);
+  // The working dataset, which upload, manual entry and calculation act on, with the results of
+  // `workingRunId` once calculated
+  const [samples, setSamples] = useState<SampleStore>(EMPTY_STORE);
+  const [workingRunId, setWorkingRunId] = useState<string | undefined>();
+  // An earlier run opened from the history; shown in Results, on the map and in exports only
+  const [viewed, setViewed] = useState<{ runId: string; samples: SampleStore } | undefined>();
+  const [loadingRunId, setLoadingRunId] = useState<string | undefined>();
+  const viewRef = useRef<(CalculationRun & { cancelled?: boolean }) | null>(null);
   const [activeTab, setActiveTab] = useState("upload");
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const { toast } = useToast();
+
+  const shownSamples = viewed?.samples ?? samples;
+  const activeRunId = viewed?.runId ?? workingRunId;
+  const workingHash = runs.find(run => run.id === workingRunId)?.datasetHash;
 
-  const handleDataUploaded = (newSamples: WaterSample[]) => {
+  const closeViewedRun = () => {
+    if (viewRef.current) {
+      viewRef.current.cancelled = true;
+      viewRef.current.cancel();
+      viewRef.current = null;
+    }
+    setViewed(undefined);
+  };
+
+  // A new dataset has no results until it is calculated; earlier runs stay in the history
+  const handleDataUploaded = (newSamples: SampleStore) => {
+    closeViewedRun();
     setSamples(newSamples);
+    setWorkingRunId(undefined);
     setActiveTab("calculate");
   };
 
-  const handleCalculationComplete = (calculatedSamples: WaterSample[]) => {
-    setSamples(calculatedSamples);
+  const handleExport = () => {
+    const { columns, rows } = resultsTable(storeSamples(shownSamples));
+    downloadCsv('hmpi-report.csv', columns, rows);
+  };
+
+  const handleCalculationComplete = (run: RunDraft) => {
+    closeViewedRun();
+    const history = recordRun(runs, run);
+    setRuns(history);
+    setWorkingRunId(history[history.length - 1].id);
+    setSamples(run.samples);
     setActiveTab("results");
   };
 
+  // The history keeps summaries only, so an earlier run is recalculated from its settings on
+  // the working dataset, provided the measurements are still the ones it ran on
+  const handleSelectRun = (id: string) => {
+    if (id === workingRunId) {
+      closeViewedRun();
+      return;
+    }
+    const run = runs.find(r => r.id === id);
+    if (!run || viewRef.current) return;
+
+    const calculation: CalculationRun & { cancelled?: boolean } = runCalculation({ samples, settings: run.settings });
+    viewRef.current = calculation;
+    setLoadingRunId(id);
+    calculation.promise
+      .then(result => {
+        if (result.datasetHash !== run.datasetHash) {
+          toast({
+            title: `Run ${run.version} can't be shown`,
+            description: "The data has changed since that run; its parameters and categories can still be compared",
+            variant: "destructive",
+          });
+          return;
+        }
+        setViewed({ runId: id, samples: result.samples });
+      })
+      .catch((error) => {
+        // A view cancelled because the data changed or a new run finished needs no message
+        if (calculation.cancelled) return;
+        toast({
+          title: `Run ${run.version} can't be shown`,
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (viewRef.current === calculation) viewRef.current = null;
+        setLoadingRunId(undefined);
+      });
+  };
+
+  const calculated = useMemo(() => someSample(shownSamples, s => !!s.hmpiResults), [shownSamples]);
+  const viewedRun = runs.find(run => run.id === viewed?.runId);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
       {/* Hero Section */}
@@ -113,12 +176,12 @@ const Dashboard = () => {
                 Upload data, calculate indices, and visualize pollution patterns
               </p>
             </div>
-            {samples.length > 0 && (
+            {samples.size > 0 && (
               <div className="flex items-center gap-4">
                 <Badge variant="outline" className="text-sm px-4 py-2">
-                  {samples.length} Samples Loaded
+                  {samples.size} Samples Loaded
                 </Badge>
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" onClick={handleExport}>
                   <Download className="mr-2 h-4 w-4" />
                   Export Report
                 </Button>
@@ -132,22 +195,22 @@ const Dashboard = () => {
                 <FileUp className="h-4 w-4" />
                 Data Upload
               </TabsTrigger>
-              <TabsTrigger value="calculate" className="flex items-center gap-2" disabled={samples.length === 0}>
+              <TabsTrigger value="calculate" className="flex items-center gap-2" disabled={samples.size === 0}>
                 <Calculator className="h-4 w-4" />
                 Calculate
               </TabsTrigger>
-              <TabsTrigger value="results" className="flex items-center gap-2" disabled={!samples.some(s => s.hmpiResults)}>
+              <TabsTrigger value="results" className="flex items-center gap-2" disabled={runs.length === 0}>
                 <BarChart3 className="h-4 w-4" />
                 Results
               </TabsTrigger>
-              <TabsTrigger value="map" className="flex items-center gap-2" disabled={!samples.some(s => s.hmpiResults)}>
+              <TabsTrigger value="map" className="flex items-center gap-2" disabled={!calculated}>
                 <Map className="h-4 w-4" />
                 Geospatial
               </TabsTrigger>
             </TabsList>
 
             <TabsContent value="upload" className="mt-8">
-              <DataUpload onDataUploaded={handleDataUploaded} />
+              <DataUpload currentSamples={samples} onDataUploaded={handleDataUploaded} />
             </TabsContent>
 
             <TabsContent value="calculate" className="mt-8">
@@ -157,12 +220,33 @@ const Dashboard = () => {
               />
             </TabsContent>
 
-            <TabsContent value="results" className="mt-8">
-              <ResultsVisualization samples={samples} />
+            <TabsContent value="results" className="mt-8 space-y-6">
+              {runs.length > 0 && (
+                <RunHistory
+                  runs={runs}
+                  activeRunId={activeRunId}
+                  datasetHash={workingHash}
+                  loadingRunId={loadingRunId}
+                  onSelectRun={handleSelectRun}
+                />
+              )}
+              {viewedRun && (
+                <Alert>
+                  <History className="h-4 w-4" />
+                  <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                      Viewing run {viewedRun.version}, recalculated with its settings on the current data; the working dataset
+                      is unchanged{viewedRun.monteCarlo && ' · Monte Carlo results are not recomputed for earlier runs'}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={closeViewedRun}>Close</Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <ResultsVisualization samples={shownSamples} />
             </TabsContent>
 
             <TabsContent value="map" className="mt-8">
-              <GeospatialMap samples={samples} />
+              <GeospatialMap samples={shownSamples} />
             </TabsContent>
           </Tabs>
         </div>
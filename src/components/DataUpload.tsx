@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,88 +7,164 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { FileUp, FileText, AlertCircle, CheckCircle, X } from "lucide-react";
-import Papa from 'papaparse';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, FileText, AlertCircle, CheckCircle, ClipboardPen, Columns3, GitMerge, X } from "lucide-react";
 import { WaterSample } from "./Dashboard";
 import { useToast } from "@/hooks/use-toast";
+import { countCensored } from "@/lib/bdl";
+import type { MetalSymbol } from "@/lib/indices";
+import { ELEMENT_SYMBOLS } from "@/lib/elements";
+import {
+  ColumnMapping,
+  MappingTemplate,
+  findMappingTemplate,
+  headerSignature,
+  isMetalTarget,
+  saveMappingTemplate,
+  suggestMapping,
+} from "@/lib/mapping";
+import {
+  CANONICAL_UNIT,
+  CONCENTRATION_UNITS,
+  ColumnUnit,
+  ConcentrationUnit,
+  ReportedUnits,
+  detectColumnUnit,
+  isUnitsRow,
+} from "@/lib/units";
+import {
+  ACCEPTED_EXTENSIONS,
+  CsvStream,
+  ParsedTable,
+  RejectedRow,
+  SampleReadContext,
+  SourceFile,
+  detectHeaderRow,
+  duplicateIdIssues,
+  gridToTable,
+  readSourceFile,
+  streamCsvSamples,
+  validateTable,
+} from "@/lib/import";
+import { ValidationIssue, ValidationResult, countIssues, rowsWithErrors } from "@/lib/validation";
+import { downloadCsv } from "@/lib/export";
+import { DEFAULT_DATUM, DatumId, StudyArea, isAmbiguousUtmZone, loadStudyArea, parseUtmZone, saveStudyArea } from "@/lib/geo";
+import { SampleSource, uniqueIds } from "@/lib/merge";
+import { withoutResults } from "@/lib/calculation";
+import {
+  EMPTY_STORE,
+  SampleStore,
+  appendSamples,
+  createSampleStore,
+  forEachSample,
+  mapSamples,
+  sampleAt,
+  storeElements,
+  storeSamples,
+} from "@/lib/store";
+import ColumnMappingWizard from "./ColumnMappingWizard";
+import SheetSettings from "./SheetSettings";
+import CoordinateSettings from "./CoordinateSettings";
+import ValidationReport from "./ValidationReport";
+import SampleGrid from "./SampleGrid";
+import ManualEntryForm from "./ManualEntryForm";
+import MergeReview from "./MergeReview";
+import { validateSamples } from "@/lib/grid";
 
 interface DataUploadProps {
-  onDataUploaded: (samples: WaterSample[]) => void;
+  currentSamples: SampleStore; // confirmed dataset, which manual entries and new files can be added to
+  onDataUploaded: (samples: SampleStore) => void;
 }
 
-const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [previewData, setPreviewData] = useState<WaterSample[]>([]);
-  const [errors, setErrors] = useState<string[]>([]);
-  const { toast } = useToast();
+const UNIT_OPTIONS = Object.keys(CONCENTRATION_UNITS) as ConcentrationUnit[];
 
-  const requiredColumns = ['latitude', 'longitude', 'sampleDate', 'As', 'Cd', 'Cr', 'Cu', 'Fe', 'Mn', 'Ni', 'Pb', 'Zn'];
+const metalColumnsOf = (mapping: ColumnMapping) =>
+  Object.entries(mapping).filter(([, target]) => isMetalTarget(target)) as [string, MetalSymbol][];
 
-  const validateData = (data: any[]): { isValid: boolean; errors: string[]; samples: WaterSample[] } => {
-    const errors: string[] = [];
-    const samples: WaterSample[] = [];
+// A units row, if present, is the first row below the header
+const findUnitsRow = (rows: Record<string, string>[], mapping: ColumnMapping) => {
+  const metalColumns = metalColumnsOf(mapping).map(([column]) => column);
+  return rows.length > 0 && isUnitsRow(rows[0], metalColumns) ? rows[0] : undefined;
+};
 
-    if (data.length === 0) {
-      errors.push("No data found in the uploaded file");
-      return { isValid: false, errors, samples };
-    }
+// "pre-monsoon-2024.csv" is batch "pre-monsoon-2024" until renamed
+const batchOf = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
 
-    // Check required columns
-    const firstRow = data[0];
-    const missingColumns = requiredColumns.filter(col => !(col in firstRow));
-    if (missingColumns.length > 0) {
-      errors.push(`Missing required columns: ${missingColumns.join(', ')}`);
-    }
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
-    // Validate each row
-    data.forEach((row, index) => {
-      const rowErrors: string[] = [];
-      
-      // Check latitude and longitude
-      const lat = parseFloat(row.latitude);
-      const lng = parseFloat(row.longitude);
-      
-      if (isNaN(lat) || lat < -90 || lat > 90) {
-        rowErrors.push(`Invalid latitude at row ${index + 1}`);
-      }
-      if (isNaN(lng) || lng < -180 || lng > 180) {
-        rowErrors.push(`Invalid longitude at row ${index + 1}`);
-      }
-
-      // Check metal concentrations
-      const metals = ['As', 'Cd', 'Cr', 'Cu', 'Fe', 'Mn', 'Ni', 'Pb', 'Zn'];
-      const metalValues: any = {};
-      
-      metals.forEach(metal => {
-        const value = parseFloat(row[metal]);
-        if (isNaN(value) || value < 0) {
-          rowErrors.push(`Invalid ${metal} concentration at row ${index + 1}`);
-        } else {
-          metalValues[metal] = value;
-        }
-      });
+// UTM positions without a zone column take the zone from the coordinate settings
+const needsUtmZone = (mapping: ColumnMapping) => {
+  const targets = Object.values(mapping);
+  return !(targets.includes('latitude') && targets.includes('longitude')) &&
+    targets.includes('easting') && !targets.includes('utmZone');
+};
 
-      if (rowErrors.length === 0) {
-        samples.push({
-          id: `sample_${index + 1}`,
-          latitude: lat,
-          longitude: lng,
-          sampleDate: row.sampleDate || new Date().toISOString().split('T')[0],
-          metals: metalValues
-        });
-      } else {
-        errors.push(...rowErrors);
-      }
-    });
+const DataUpload = ({ currentSamples, onDataUploaded }: DataUploadProps) => {
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [previewData, setPreviewData] = useState<SampleStore>(EMPTY_STORE);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [defaultUnit, setDefaultUnit] = useState<ConcentrationUnit>(CANONICAL_UNIT);
+  const [source, setSource] = useState<SourceFile | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [parsedFile, setParsedFile] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [unitOverrides, setUnitOverrides] = useState<Record<string, ConcentrationUnit>>({});
+  const [template, setTemplate] = useState<MappingTemplate | undefined>();
+  const [isMapping, setIsMapping] = useState(false);
+  const [validation, setValidation] = useState<ValidationResult<SampleStore> | null>(null);
+  const [isEntering, setIsEntering] = useState(false);
+  const [datum, setDatum] = useState<DatumId>(DEFAULT_DATUM);
+  const [utmZone, setUtmZone] = useState('');
+  const [studyArea, setStudyArea] = useState<StudyArea | undefined>(loadStudyArea);
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+  const [batch, setBatch] = useState('');
+  const [previewFromFile, setPreviewFromFile] = useState(false);
+  const [merging, setMerging] = useState<{ existing: WaterSample[]; incoming: WaterSample[] } | undefined>();
+  const [streamProgress, setStreamProgress] = useState<{ bytesRead: number; totalBytes: number; rowsRead: number } | undefined>();
+  const streamRef = useRef<CsvStream & { cancelled?: boolean }>();
+  const { toast } = useToast();
+
+  const columnUnits = (file: ParsedTable, columnMapping: ColumnMapping): Record<string, ColumnUnit> => {
+    const unitsRow = findUnitsRow(file.rows, columnMapping);
+    return Object.fromEntries(
+      metalColumnsOf(columnMapping).map(([column]) => [column, detectColumnUnit(column, unitsRow?.[column], defaultUnit)])
+    );
+  };
 
+  // Settings that turn a mapped row into a sample
+  const readContext = (file: ParsedTable): SampleReadContext => {
+    const detected = columnUnits(file, mapping);
     return {
-      isValid: errors.length === 0,
-      errors,
-      samples
+      mapping,
+      units: Object.fromEntries(Object.keys(detected).map(column => [column, unitOverrides[column] ?? detected[column].unit])),
+      datum,
+      utmZone,
+      studyArea,
     };
   };
 
+  // Columns are mapped afresh whenever the sheet or header row changes
+  const selectTable = (file: SourceFile, sheetIndex: number, headerRow: number) => {
+    const table = gridToTable(file.sheets[sheetIndex].grid, headerRow);
+    // A template saved for the same headers is applied as is; otherwise matches are suggested
+    const saved = findMappingTemplate(table.fields);
+
+    setSheetIndex(sheetIndex);
+    setHeaderRow(headerRow);
+    setParsedFile(table);
+    setMapping(saved ? { ...suggestMapping(table.fields), ...saved.mapping } : suggestMapping(table.fields));
+    setUnitOverrides(saved?.units ?? {});
+    setDatum(saved?.datum ?? DEFAULT_DATUM);
+    setUtmZone(saved?.utmZone ?? '');
+    setTemplate(saved);
+    setIsMapping(true);
+    setPreviewData(EMPTY_STORE);
+    setErrors([]);
+    setValidation(null);
+  };
+
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -96,56 +172,259 @@ const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
     setIsProcessing(true);
     setUploadProgress(0);
     setErrors([]);
+    setPreviewData(EMPTY_STORE);
+    setValidation(null);
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
+    readSourceFile(file)
+      .then((result) => {
+        if (result.sheets.length === 0) throw new Error("The workbook contains no sheets");
+        setSource(result);
+        setBatch(batchOf(file.name));
+        selectTable(result, 0, detectHeaderRow(result.sheets[0].grid));
         setUploadProgress(50);
-        
-        const validation = validateData(results.data);
-        
-        if (validation.isValid) {
-          setPreviewData(validation.samples);
-          setUploadProgress(100);
-          toast({
-            title: "Data uploaded successfully",
-            description: `${validation.samples.length} samples ready for analysis`,
-          });
-        } else {
-          setErrors(validation.errors);
-          toast({
-            title: "Upload failed",
-            description: "Please check the data format and try again",
-            variant: "destructive",
-          });
-        }
-        
-        setIsProcessing(false);
-      },
-      error: (error) => {
-        setErrors([`File parsing error: ${error.message}`]);
-        setIsProcessing(false);
+      })
+      .catch((error) => {
+        setErrors([`File parsing error: ${error instanceof Error ? error.message : String(error)}`]);
         toast({
           title: "Upload failed",
-          description: "Could not parse the CSV file",
+          description: "Could not read the file",
           variant: "destructive",
         });
-      }
-    });
+      })
+      .finally(() => setIsProcessing(false));
   }, [toast]);
 
+  const handleApplyMapping = () => {
+    if (!parsedFile || !source) return;
+    if (needsUtmZone(mapping) && !parseUtmZone(utmZone)) {
+      setErrors(["Enter the UTM zone for this file under Coordinates, e.g. 43N"]);
+      return;
+    }
+    if (needsUtmZone(mapping) && isAmbiguousUtmZone(utmZone)) {
+      setErrors(["Write the UTM zone under Coordinates as e.g. 43 south or 43 north; a bare S may be the MGRS latitude band"]);
+      return;
+    }
+    setErrors([]);
+    setPreviewData(EMPTY_STORE);
+    setValidation(null);
+
+    const context = readContext(parsedFile);
+    const unitsRow = findUnitsRow(parsedFile.rows, mapping);
+    if (source.stream) {
+      streamImport(source.stream, parsedFile, context, unitsRow ? [parsedFile.rowNumbers[0]] : []);
+      return;
+    }
+
+    const result = validateTable(parsedFile, context, unitsRow);
+    const quarantined = new Set(result.quarantined);
+    setRejectedRows(parsedFile.rows
+      .map((record, index) => ({ row: parsedFile.rowNumbers[index], record }))
+      .filter(({ row }) => quarantined.has(row)));
+    reviewValidation(result);
+  };
+
+  // Large CSV files are read and validated chunk by chunk in a worker, so the raw text is never
+  // held whole; only the samples, stored chunk by chunk, and the rows with errors are kept
+  const streamImport = (file: File, table: ParsedTable, context: SampleReadContext, skipRows: number[]) => {
+    let samples = EMPTY_STORE;
+    const issues: ValidationIssue[] = [];
+    const ids: { id: string; row: number }[] = [];
+    const rejected: RejectedRow[] = [];
+
+    setIsProcessing(true);
+    setUploadProgress(0);
+    setStreamProgress({ bytesRead: 0, totalBytes: file.size, rowsRead: 0 });
+
+    const stream = streamCsvSamples({ file, headerRow, fields: table.fields, skipRows, context }, (chunk) => {
+      samples = appendSamples(samples, chunk.samples);
+      issues.push(...chunk.issues);
+      rejected.push(...chunk.rejected);
+      chunk.samples.forEach((sample, i) => ids.push({ id: sample.id, row: chunk.sampleRows[i] }));
+      setUploadProgress((chunk.bytesRead / file.size) * 100);
+      setStreamProgress({ bytesRead: chunk.bytesRead, totalBytes: file.size, rowsRead: chunk.rowsRead });
+    });
+    streamRef.current = stream;
+
+    stream.promise
+      .then(() => {
+        const idColumn = Object.keys(mapping).find(column => mapping[column] === 'sampleId');
+        issues.push(...duplicateIdIssues(ids, idColumn));
+        setRejectedRows(rejected);
+        reviewValidation({
+          issues: issues.sort((a, b) => a.row - b.row),
+          valid: samples,
+          quarantined: rowsWithErrors(issues),
+        });
+      })
+      .catch((error) => {
+        setUploadProgress(0);
+        if (streamRef.current?.cancelled) {
+          toast({ title: "Import cancelled", description: `${file.name} was not imported` });
+        } else {
+          setErrors([`File parsing error: ${error instanceof Error ? error.message : String(error)}`]);
+        }
+      })
+      .finally(() => {
+        streamRef.current = undefined;
+        setStreamProgress(undefined);
+        setIsProcessing(false);
+      });
+  };
+
+  const handleCancelStream = () => {
+    if (!streamRef.current) return;
+    streamRef.current.cancelled = true;
+    streamRef.current.cancel();
+  };
+
+  // Imports straight away when no row has errors; otherwise the report decides
+  const reviewValidation = (result: ValidationResult<SampleStore>) => {
+    if (result.valid.size === 0 && result.quarantined.length === 0) {
+      setErrors(["No data found in the uploaded file"]);
+      return;
+    }
+    setValidation(result);
+
+    if (result.quarantined.length === 0) {
+      importSamples(result);
+    } else if (result.valid.size === 0) {
+      toast({
+        title: "Upload failed",
+        description: "Every row has errors; see the validation report",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Some rows have errors",
+        description: `${result.quarantined.length} rows would be quarantined; fix the file or import the ${result.valid.size} valid rows`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importSamples = (result: ValidationResult<SampleStore>) => {
+    setPreviewData(result.valid);
+    setPreviewFromFile(true);
+    setIsMapping(false);
+    setUploadProgress(100);
+    let nonDetects = 0;
+    forEachSample(result.valid, sample => {
+      nonDetects += countCensored(sample.censored);
+    });
+    const warnings = countIssues(result.issues, 'warning');
+    toast({
+      title: "Data uploaded successfully",
+      description: `${result.valid.size} samples ready for analysis` +
+        (nonDetects > 0 ? `, ${nonDetects} values below detection limit` : '') +
+        (result.quarantined.length > 0 ? `, ${result.quarantined.length} rows quarantined` : '') +
+        (warnings > 0 ? `, ${warnings} warnings to review` : ''),
+    });
+  };
+
+  // Quarantined rows as they appeared in the file, so they can be fixed and uploaded again
+  const handleDownloadQuarantined = () => {
+    if (!parsedFile) return;
+    const rows = rejectedRows.map(({ row, record }) => ({ row, ...record }));
+    downloadCsv('hmpi-quarantined-rows.csv', ['row', ...parsedFile.fields], rows);
+  };
+
+  const handleSaveTemplate = (name: string) => {
+    if (!parsedFile) return;
+
+    const units = Object.fromEntries(
+      Object.entries(columnUnits(parsedFile, mapping)).map(([column, { unit }]) => [column, unitOverrides[column] ?? unit])
+    );
+    const saved: MappingTemplate = {
+      signature: headerSignature(parsedFile.fields),
+      name,
+      mapping,
+      units,
+      datum,
+      utmZone: needsUtmZone(mapping) ? utmZone.trim() : undefined,
+      savedAt: new Date().toISOString(),
+    };
+    saveMappingTemplate(saved);
+    setTemplate(saved);
+    toast({
+      title: "Template saved",
+      description: `Files with the same columns will be mapped as "${name}"`,
+    });
+  };
+
+  // Samples read from the file carry its batch; rows entered by hand join the batch without a file
+  const taggedPreview = (): SampleStore => {
+    if (!previewFromFile || !source) return previewData;
+    const tag: SampleSource = { fileName: source.name, batch: batch.trim() || batchOf(source.name), importedAt: new Date().toISOString() };
+    return mapSamples(previewData, sample =>
+      sample.source ? sample : { ...sample, source: sample.addedManually ? { ...tag, fileName: undefined } : tag }
+    );
+  };
+
   const handleConfirmUpload = () => {
-    onDataUploaded(previewData);
+    onDataUploaded(taggedPreview());
+    clearData();
     toast({
       title: "Data confirmed",
       description: "Proceeding to calculation step",
     });
   };
 
+  // New samples are checked against the dataset for duplicates before they are added. The
+  // search needs every sample at hand, so both sides are listed out for the review.
+  const handleStartMerge = () => {
+    const incoming = storeSamples(taggedPreview());
+    const existing = storeSamples(currentSamples);
+    setMerging({
+      existing: existing.map(withoutResults),
+      incoming: uniqueIds(existing, incoming, incoming[0]?.source?.batch ?? batch),
+    });
+  };
+
+  const handleMerge = (merged: WaterSample[]) => {
+    onDataUploaded(createSampleStore(merged));
+    clearData();
+    toast({
+      title: "Dataset merged",
+      description: `${merged.length} samples ready for calculation`,
+    });
+  };
+
+  // Manual entries extend the preview if one is open, otherwise the confirmed dataset
+  const workingSamples = previewData.size > 0 ? previewData : currentSamples;
+
+  const handleAddSample = (sample: WaterSample) => {
+    if (previewData.size === 0) setPreviewFromFile(false);
+    setPreviewData(appendSamples(previewData.size > 0 ? previewData : mapSamples(currentSamples, withoutResults), [sample]));
+  };
+
+  // Both walk every sample, so they are only redone when the preview or study area changes
+  const previewMetals = useMemo(() => storeElements(previewData), [previewData]);
+  const previewUnits: ReportedUnits = sampleAt(previewData, 0)?.reportedUnits ?? {};
+  const convertedUnits = previewMetals.filter(metal => previewUnits[metal] && previewUnits[metal] !== CANONICAL_UNIT);
+  const gridIssues = useMemo(() => validateSamples(previewData, studyArea), [previewData, studyArea]);
+
+  const handleStudyAreaChange = (area: StudyArea | undefined) => {
+    saveStudyArea(area);
+    setStudyArea(area);
+  };
+  const gridErrors = countIssues(gridIssues, 'error');
+  // A file preview can extend the confirmed dataset instead of replacing it
+  const canAppend = previewFromFile && currentSamples.size > 0;
+  const ignoredColumns = Object.keys(mapping).filter(column => mapping[column] === 'ignore');
+
   const clearData = () => {
-    setPreviewData([]);
+    setPreviewData(EMPTY_STORE);
+    setPreviewFromFile(false);
+    setMerging(undefined);
     setErrors([]);
+    setSource(null);
+    setParsedFile(null);
+    setMapping({});
+    setUnitOverrides({});
+    setTemplate(undefined);
+    setIsMapping(false);
+    setValidation(null);
+    setRejectedRows([]);
     setUploadProgress(0);
   };
 
@@ -158,7 +437,7 @@ const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
             Data Upload
           </CardTitle>
           <CardDescription>
-            Upload your groundwater heavy metal concentration data in CSV format
+            Upload your groundwater heavy metal concentration data as CSV or an Excel/ODS workbook
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -166,34 +445,74 @@ const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
           <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center hover:border-primary/50 transition-colors">
             <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <div className="space-y-2 mb-4">
-              <h3 className="text-lg font-medium">Upload CSV File</h3>
+              <h3 className="text-lg font-medium">Upload CSV or Workbook</h3>
               <p className="text-sm text-muted-foreground">
                 Choose a file containing water sample data with heavy metal concentrations
               </p>
             </div>
             <Input
               type="file"
-              accept=".csv"
+              accept={ACCEPTED_EXTENSIONS.join(',')}
               onChange={handleFileUpload}
               disabled={isProcessing}
               className="max-w-xs mx-auto"
             />
+            <Button variant="link" size="sm" className="mt-2" onClick={() => setIsEntering(true)} disabled={isEntering}>
+              <ClipboardPen className="h-4 w-4 mr-2" />
+              Or enter a sample manually
+            </Button>
+            <div className="flex items-center justify-center gap-2 mt-4">
+              <Label htmlFor="default-unit" className="text-sm text-muted-foreground">
+                Unit for columns without one
+              </Label>
+              <Select value={defaultUnit} onValueChange={(value) => setDefaultUnit(value as ConcentrationUnit)}>
+                <SelectTrigger id="default-unit" className="w-28 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_OPTIONS.map(unit => (
+                    <SelectItem key={unit} value={unit}>{CONCENTRATION_UNITS[unit].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Required Format */}
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              <strong>Required columns:</strong> latitude, longitude, sampleDate, As, Cd, Cr, Cu, Fe, Mn, Ni, Pb, Zn
+              <strong>Columns:</strong> latitude, longitude and one column per measured element, plus optional sample ID
+              and date; headers are matched to fields after upload and can be corrected there
+              <br />
+              <strong>Supported elements:</strong> {ELEMENT_SYMBOLS.join(', ')}
+              <br />
+              <strong>Format:</strong> Coordinates in decimal degrees, DMS (25°36'12"N) or UTM zone/easting/northing, in WGS 84
+              or an Everest 1830 datum; concentrations are converted to {CANONICAL_UNIT}
+              <br />
+              <strong>Units:</strong> Declare per column with a header suffix (Pb_ugL, Pb (µg/L), Pb [ppb]) or a units row
+              directly below the header; other columns use the unit chosen above
               <br />
-              <strong>Format:</strong> Coordinates in decimal degrees, metal concentrations in mg/L
+              <strong>Non-detects:</strong> Enter as &lt;0.001, BDL, ND or BDL (0.001); give the detection limit where known. Blank cells are treated as not measured
             </AlertDescription>
           </Alert>
 
           {/* Upload Progress */}
           {isProcessing && (
             <div className="space-y-2">
-              <Label>Processing file...</Label>
+              <div className="flex items-center justify-between gap-4">
+                <Label>
+                  {streamProgress
+                    ? `Reading ${formatMegabytes(streamProgress.bytesRead)} of ${formatMegabytes(streamProgress.totalBytes)} · ${streamProgress.rowsRead.toLocaleString()} rows`
+                    : 'Processing file...'}
+                </Label>
+                {streamProgress && (
+                  <Button variant="outline" size="sm" onClick={handleCancelStream}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
               <Progress value={uploadProgress} className="w-full" />
             </div>
           )}
@@ -216,73 +535,140 @@ const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
             </Alert>
           )}
 
+          {/* Sheet and Header Row */}
+          {isMapping && source && (
+            <SheetSettings
+              source={source}
+              sheetIndex={sheetIndex}
+              headerRow={headerRow}
+              onChange={(sheet, row) => selectTable(source, sheet, row)}
+            />
+          )}
+
+          {/* Coordinate Format */}
+          {isMapping && parsedFile && (
+            <CoordinateSettings
+              datum={datum}
+              onDatumChange={setDatum}
+              utmZone={needsUtmZone(mapping) ? utmZone : undefined}
+              onUtmZoneChange={setUtmZone}
+              studyArea={studyArea}
+              onStudyAreaChange={handleStudyAreaChange}
+            />
+          )}
+
+          {/* Column Mapping */}
+          {isMapping && parsedFile && (
+            <ColumnMappingWizard
+              columns={parsedFile.fields}
+              rows={parsedFile.rows.filter(row => row !== findUnitsRow(parsedFile.rows, mapping))}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              units={columnUnits(parsedFile, mapping)}
+              unitOverrides={unitOverrides}
+              onUnitChange={(column, unit) => setUnitOverrides(prev => ({ ...prev, [column]: unit }))}
+              template={template}
+              onSaveTemplate={handleSaveTemplate}
+              onApply={handleApplyMapping}
+              isApplying={isProcessing}
+              onCancel={clearData}
+            />
+          )}
+
+          {/* Manual Entry */}
+          {isEntering && (
+            <ManualEntryForm
+              metals={storeElements(workingSamples)}
+              existingIds={storeSamples(workingSamples).map(s => s.id)}
+              onAdd={handleAddSample}
+              onClose={() => setIsEntering(false)}
+            />
+          )}
+
+          {/* Validation Report */}
+          {validation && validation.issues.length > 0 && (
+            <ValidationReport
+              issues={validation.issues}
+              validRows={validation.valid.size}
+              quarantinedRows={validation.quarantined}
+              onDownloadQuarantined={handleDownloadQuarantined}
+              onImportValid={previewData.size === 0 ? () => importSamples(validation) : undefined}
+            />
+          )}
+
+          {merging && (
+            <MergeReview
+              existing={merging.existing}
+              incoming={merging.incoming}
+              onMerge={handleMerge}
+              onCancel={() => setMerging(undefined)}
+            />
+          )}
+
           {/* Preview Data */}
-          {previewData.length > 0 && (
+          {previewData.size > 0 && !merging && (
             <Card>
               <CardHeader className="flex flex-row items-center justify-between">
                 <div>
                   <CardTitle className="text-lg">Data Preview</CardTitle>
                   <CardDescription>
-                    {previewData.length} samples ready for analysis
+                    {previewData.size} samples ready for analysis
+                    {validation?.quarantined.length > 0 && <> · {validation.quarantined.length} rows quarantined</>}
+                    {' '}· Elements: {previewMetals.join(', ')}
+                    {ignoredColumns.length > 0 && <> · Ignored columns: {ignoredColumns.join(', ')}</>}
+                    {convertedUnits.length > 0 && (
+                      <> · Converted to {CANONICAL_UNIT}: {convertedUnits.map(metal => `${metal} from ${previewUnits[metal]}`).join(', ')}</>
+                    )}
+                    <br />
+                    Click a cell to correct it; edited values are highlighted and noted in exports
+                    {gridErrors > 0 && <> · <span className="text-destructive">{gridErrors} errors to fix before confirming</span></>}
                   </CardDescription>
                 </div>
                 <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setIsMapping(true)} disabled={isMapping}>
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    Edit Mapping
+                  </Button>
                   <Button variant="outline" size="sm" onClick={clearData}>
                     <X className="h-4 w-4 mr-2" />
                     Clear
                   </Button>
-                  <Button onClick={handleConfirmUpload}>
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Confirm Data
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="rounded-lg border overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Sample ID</TableHead>
-                        <TableHead>Coordinates</TableHead>
-                        <TableHead>Date</TableHead>
-                        <TableHead>As</TableHead>
-                        <TableHead>Cd</TableHead>
-                        <TableHead>Cr</TableHead>
-                        <TableHead>Cu</TableHead>
-                        <TableHead>Status</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {previewData.slice(0, 5).map((sample) => (
-                        <TableRow key={sample.id}>
-                          <TableCell className="font-medium">{sample.id}</TableCell>
-                          <TableCell>
-                            <div className="text-sm">
-                              <div>{sample.latitude.toFixed(4)}</div>
-                              <div className="text-muted-foreground">{sample.longitude.toFixed(4)}</div>
-                            </div>
-                          </TableCell>
-                          <TableCell>{sample.sampleDate}</TableCell>
-                          <TableCell>{sample.metals.As.toFixed(3)}</TableCell>
-                          <TableCell>{sample.metals.Cd.toFixed(3)}</TableCell>
-                          <TableCell>{sample.metals.Cr.toFixed(3)}</TableCell>
-                          <TableCell>{sample.metals.Cu.toFixed(3)}</TableCell>
-                          <TableCell>
-                            <Badge variant="outline" className="text-success border-success">
-                              <CheckCircle className="h-3 w-3 mr-1" />
-                              Valid
-                            </Badge>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                  {previewData.length > 5 && (
-                    <div className="p-4 text-center text-sm text-muted-foreground border-t">
-                      ... and {previewData.length - 5} more samples
-                    </div>
+                  {canAppend ? (
+                    <>
+                      <Button variant="outline" onClick={handleConfirmUpload} disabled={gridErrors > 0}>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Replace Dataset
+                      </Button>
+                      <Button onClick={handleStartMerge} disabled={gridErrors > 0}>
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        Add to Dataset
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={handleConfirmUpload} disabled={gridErrors > 0}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Confirm Data
+                    </Button>
                   )}
                 </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {previewFromFile && source && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="batch" className="text-sm">Batch</Label>
+                    <Input
+                      id="batch"
+                      value={batch}
+                      onChange={(e) => setBatch(e.target.value)}
+                      placeholder={batchOf(source.name)}
+                      className="h-8 w-64"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      Tags these samples, e.g. "Pre-monsoon 2024", so sampling rounds can be told apart and compared
+                    </span>
+                  </div>
+                )}
+                <SampleGrid samples={previewData} metals={previewMetals} issues={gridIssues} onChange={setPreviewData} />
               </CardContent>
             </Card>
           )}
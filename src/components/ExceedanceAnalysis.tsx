@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { WaterSample } from "./Dashboard";
+import { resolveConcentrations } from "@/lib/bdl";
+import { elementName } from "@/lib/elements";
+import { summariseExceedance } from "@/lib/exceedance";
+import { CANONICAL_UNIT } from "@/lib/units";
+
+interface ExceedanceAnalysisProps {
+  samples: WaterSample[]; // calculated samples
+}
+
+const percent = (count: number, total: number) => Math.round((count / total) * 1000) / 10;
+
+const formatLimit = (value?: number) => (value === undefined ? '—' : `${value}`);
+
+const ExceedanceAnalysis = ({ samples }: ExceedanceAnalysisProps) => {
+  // Concentrations as the indices saw them, with non-detects substituted or excluded
+  const summaries = useMemo(
+    () => summariseExceedance(samples.map(sample => ({
+      metals: resolveConcentrations(sample.metals, sample.censored, sample.hmpiResults!.bdlPolicy),
+      limits: sample.hmpiResults!.standard.limits,
+    }))),
+    [samples]
+  );
+
+  // Every sample uses the same standard within a run, so the first one gives the limits shown
+  const limits = samples[0]?.hmpiResults!.standard.limits ?? {};
+
+  const chartData = summaries.map(summary => ({
+    metal: summary.metal,
+    name: elementName(summary.metal),
+    within: percent(summary.within, summary.samples),
+    aboveAcceptable: percent(summary.aboveAcceptable, summary.samples),
+    abovePermissible: percent(summary.abovePermissible, summary.samples),
+  }));
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exceedance by Element</CardTitle>
+        <CardDescription>
+          Share of samples within, above the acceptable and above the permissible limit of the standard,
+          with the exceedance ratio Ci/Si against the permissible limit · elements without a limit are left out
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="metal" />
+            <YAxis domain={[0, 100]} unit="%" />
+            <Tooltip
+              formatter={(value, name) => [`${value}%`, name]}
+              labelFormatter={(label) => elementName(label)}
+            />
+            <Legend />
+            <Bar dataKey="within" name="Within limits" stackId="exceedance" fill="hsl(var(--good))" />
+            <Bar dataKey="aboveAcceptable" name="Above acceptable" stackId="exceedance" fill="hsl(var(--moderate))" />
+            <Bar dataKey="abovePermissible" name="Above permissible" stackId="exceedance" fill="hsl(var(--unsuitable))" />
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Element</TableHead>
+                <TableHead>Acceptable ({CANONICAL_UNIT})</TableHead>
+                <TableHead>Permissible ({CANONICAL_UNIT})</TableHead>
+                <TableHead>Samples</TableHead>
+                <TableHead>Above Acceptable</TableHead>
+                <TableHead>Above Permissible</TableHead>
+                <TableHead>Max Ci/Si</TableHead>
+                <TableHead>Mean Ci/Si</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map(summary => {
+                // Samples above the permissible limit are above the acceptable one too
+                const aboveAcceptable = summary.aboveAcceptable + summary.abovePermissible;
+                return (
+                  <TableRow key={summary.metal}>
+                    <TableCell className="font-medium">{summary.metal}</TableCell>
+                    <TableCell>{formatLimit(limits[summary.metal]?.acceptable)}</TableCell>
+                    <TableCell>{formatLimit(limits[summary.metal]?.permissible)}</TableCell>
+                    <TableCell>{summary.samples}</TableCell>
+                    <TableCell>
+                      {summary.hasAcceptable ? <>{aboveAcceptable} ({percent(aboveAcceptable, summary.samples)}%)</> : '—'}
+                    </TableCell>
+                    <TableCell className={summary.abovePermissible > 0 ? 'text-destructive font-medium' : undefined}>
+                      {summary.abovePermissible} ({percent(summary.abovePermissible, summary.samples)}%)
+                    </TableCell>
+                    <TableCell className={summary.maxRatio > 1 ? 'text-destructive font-medium' : undefined}>
+                      {summary.maxRatio.toFixed(2)}
+                    </TableCell>
+                    <TableCell>{summary.meanRatio.toFixed(2)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExceedanceAnalysis;
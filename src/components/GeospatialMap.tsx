@@ -1,27 +1,40 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { MapPin, Layers, Download, Info } from "lucide-react";
 import { WaterSample } from "./Dashboard";
+import { metadataKeys, metadataLabel, metadataValue } from "@/lib/metadata";
+import { SampleStore, forEachSample } from "@/lib/store";
 
 // Note: For a full implementation, you would use react-leaflet
 // This is a simplified version showing the structure
 
 interface GeospatialMapProps {
-  samples: WaterSample[];
+  samples: SampleStore;
 }
 
+// Marker popup text: identity, quality and any metadata the sample carries
+const markerSummary = (sample: WaterSample) => [
+  sample.stationId ? `${sample.id} (station ${sample.stationId})` : sample.id,
+  `Quality: ${sample.hmpiResults!.qualityCategory}`,
+  ...metadataKeys([sample.metadata]).map(key => `${metadataLabel(key)}: ${metadataValue(sample.metadata, key)}`),
+].join('\n');
+
 const GeospatialMap = ({ samples }: GeospatialMapProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
-  const processedSamples = samples.filter(s => s.hmpiResults);
-
-  const qualityStats = processedSamples.reduce((acc, sample) => {
-    const category = sample.hmpiResults!.qualityCategory;
-    acc[category] = (acc[category] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  // Calculated samples and their categories, walked once per dataset rather than per render
+  const { processedSamples, qualityStats } = useMemo(() => {
+    const calculated: WaterSample[] = [];
+    const stats: Record<string, number> = {};
+    forEachSample(samples, sample => {
+      if (!sample.hmpiResults) return;
+      calculated.push(sample);
+      stats[sample.hmpiResults.qualityCategory] = (stats[sample.hmpiResults.qualityCategory] || 0) + 1;
+    });
+    return { processedSamples: calculated, qualityStats: stats };
+  }, [samples]);
 
   // Placeholder for map initialization
   useEffect(() => {
@@ -102,7 +115,7 @@ const GeospatialMap = ({ samples }: GeospatialMapProps) => {
                         left: `${20 + (index % 4) * 20}%`,
                         top: `${30 + Math.floor(index / 4) * 30}%`
                       }}
-                      title={`${sample.id}: ${sample.hmpiResults!.qualityCategory}`}
+                      title={markerSummary(sample)}
                     />
                   ))}
                 </div>
@@ -220,12 +233,20 @@ const GeospatialMap = ({ samples }: GeospatialMapProps) => {
                     </Badge>
                   </div>
                   <div className="text-sm text-muted-foreground">
+                    {sample.stationId && <div>Station: {sample.stationId}</div>}
+                    {metadataKeys([sample.metadata]).map(key => (
+                      <div key={key}>{metadataLabel(key)}: {metadataValue(sample.metadata, key)}</div>
+                    ))}
                     <div>Lat: {sample.latitude.toFixed(4)}</div>
                     <div>Lng: {sample.longitude.toFixed(4)}</div>
                   </div>
                   <div className="text-sm">
-                    <div>HPI: <span className="font-medium">{sample.hmpiResults!.hpi.toFixed(1)}</span></div>
-                    <div>PLI: <span className="font-medium">{sample.hmpiResults!.pli.toFixed(2)}</span></div>
+                    {sample.hmpiResults!.hpi !== undefined && (
+                      <div>HPI: <span className="font-medium">{sample.hmpiResults!.hpi.toFixed(1)}</span></div>
+                    )}
+                    {sample.hmpiResults!.pli !== undefined && (
+                      <div>PLI: <span className="font-medium">{sample.hmpiResults!.pli.toFixed(2)}</span></div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Group } from "lucide-react";
+import { WaterSample } from "./Dashboard";
+import { worstCategory } from "@/lib/indices";
+import { SampleAttribute, attributeLabel, groupSamples } from "@/lib/metadata";
+
+interface GroupSummaryProps {
+  samples: WaterSample[]; // processed samples
+  groupBy: SampleAttribute;
+}
+
+const QUALITY_BADGE_CLASSES = {
+  excellent: 'bg-excellent text-excellent-foreground',
+  good: 'bg-good text-good-foreground',
+  moderate: 'bg-moderate text-moderate-foreground',
+  poor: 'bg-poor text-poor-foreground',
+  unsuitable: 'bg-unsuitable text-unsuitable-foreground'
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Values of an index over the group's samples that have it
+const indexValues = (members: WaterSample[], id: 'hpi' | 'pli') =>
+  members.map(s => s.hmpiResults![id]).filter((value): value is number => value !== undefined);
+
+const formatOrDash = (values: number[], format: (values: number[]) => string) => (values.length > 0 ? format(values) : '—');
+
+const GroupSummary = ({ samples, groupBy }: GroupSummaryProps) => {
+  const groups = useMemo(() => groupSamples(samples, groupBy), [samples, groupBy]);
+  const showHpi = useMemo(() => samples.some(s => s.hmpiResults!.hpi !== undefined), [samples]);
+  const showPli = useMemo(() => samples.some(s => s.hmpiResults!.pli !== undefined), [samples]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Group className="h-5 w-5 text-primary" />
+          Summary by {attributeLabel(groupBy)}
+        </CardTitle>
+        <CardDescription>
+          Worst quality category{showHpi && ', mean and highest HPI'}{showPli && ', mean PLI'} in each group
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{attributeLabel(groupBy)}</TableHead>
+                <TableHead>Samples</TableHead>
+                {showHpi && <TableHead>Mean HPI</TableHead>}
+                {showHpi && <TableHead>Max HPI</TableHead>}
+                {showPli && <TableHead>Mean PLI</TableHead>}
+                <TableHead>Worst Quality</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(({ value, samples: members }) => {
+                const hpi = indexValues(members, 'hpi');
+                const worst = worstCategory(members.map(s => s.hmpiResults!.qualityCategory));
+                return (
+                  <TableRow key={value}>
+                    <TableCell className="font-medium">{value}</TableCell>
+                    <TableCell>{members.length}</TableCell>
+                    {showHpi && <TableCell>{formatOrDash(hpi, values => mean(values).toFixed(1))}</TableCell>}
+                    {showHpi && (
+                      <TableCell>
+                        {formatOrDash(hpi, values => values.reduce((max, value) => Math.max(max, value), -Infinity).toFixed(1))}
+                      </TableCell>
+                    )}
+                    {showPli && <TableCell>{formatOrDash(indexValues(members, 'pli'), values => mean(values).toFixed(2))}</TableCell>}
+                    <TableCell>
+                      <Badge className={`capitalize ${QUALITY_BADGE_CLASSES[worst]}`}>{worst}</Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GroupSummary;
@@ -0,0 +1,163 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { HeartPulse, AlertTriangle } from "lucide-react";
+import { WaterSample } from "./Dashboard";
+import { CANCER_RISK_THRESHOLD, HAZARD_INDEX_THRESHOLD, Population } from "@/lib/health-risk";
+
+interface HealthRiskResultsProps {
+  samples: WaterSample[];
+}
+
+const POPULATIONS: { id: Population; label: string }[] = [
+  { id: 'adult', label: 'Adults' },
+  { id: 'child', label: 'Children' },
+];
+
+const formatRisk = (value: number) => value.toExponential(2);
+
+const HealthRiskResults = ({ samples }: HealthRiskResultsProps) => {
+  const assessedSamples = samples.filter(s => s.healthRisk);
+
+  const summary = useMemo(() => {
+    return POPULATIONS.map(({ id, label }) => {
+      const hazardIndices = assessedSamples.map(s => s.healthRisk![id].hazardIndex);
+      const cancerRisks = assessedSamples.map(s => s.healthRisk![id].cancerRisk);
+      return {
+        id,
+        label,
+        maxHazardIndex: hazardIndices.reduce((max, hi) => Math.max(max, hi), -Infinity),
+        hazardExceedances: hazardIndices.filter(hi => hi > HAZARD_INDEX_THRESHOLD).length,
+        maxCancerRisk: cancerRisks.reduce((max, cr) => Math.max(max, cr), -Infinity),
+        cancerExceedances: cancerRisks.filter(cr => cr > CANCER_RISK_THRESHOLD).length,
+      };
+    });
+  }, [assessedSamples]);
+
+  // Mean hazard quotient per metal, split by population
+  const hazardQuotientData = useMemo(() => {
+    const totals: Record<string, { metal: string; adult: number; child: number }> = {};
+    assessedSamples.forEach(sample => {
+      POPULATIONS.forEach(({ id }) => {
+        sample.healthRisk![id].metals.forEach(({ metal, hq }) => {
+          totals[metal] = totals[metal] || { metal, adult: 0, child: 0 };
+          totals[metal][id] += hq / assessedSamples.length;
+        });
+      });
+    });
+    return Object.values(totals);
+  }, [assessedSamples]);
+
+  if (assessedSamples.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HeartPulse className="h-5 w-5 text-primary" />
+          Human Health Risk Assessment
+        </CardTitle>
+        <CardDescription>
+          Hazard index (HI &gt; {HAZARD_INDEX_THRESHOLD}) and lifetime cancer risk (CR &gt; {formatRisk(CANCER_RISK_THRESHOLD)}) through ingestion and dermal contact
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          {summary.map(({ id, label, maxHazardIndex, hazardExceedances, maxCancerRisk, cancerExceedances }) => (
+            <div key={id} className="p-4 border rounded-lg space-y-2">
+              <h4 className="font-medium">{label}</h4>
+              <div className="flex justify-between text-sm">
+                <span>Samples with HI &gt; {HAZARD_INDEX_THRESHOLD}</span>
+                <Badge variant={hazardExceedances > 0 ? 'destructive' : 'outline'}>
+                  {hazardExceedances} / {assessedSamples.length}
+                </Badge>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span>Samples with CR &gt; {formatRisk(CANCER_RISK_THRESHOLD)}</span>
+                <Badge variant={cancerExceedances > 0 ? 'destructive' : 'outline'}>
+                  {cancerExceedances} / {assessedSamples.length}
+                </Badge>
+              </div>
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Maximum HI / CR</span>
+                <span>{maxHazardIndex.toFixed(2)} / {formatRisk(maxCancerRisk)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={hazardQuotientData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="metal" />
+            <YAxis />
+            <Tooltip formatter={(value: number) => value.toFixed(3)} />
+            <Legend />
+            <Bar dataKey="adult" fill="hsl(var(--primary))" name="Mean HQ (adults)" />
+            <Bar dataKey="child" fill="hsl(var(--accent))" name="Mean HQ (children)" />
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sample ID</TableHead>
+                {POPULATIONS.map(({ id, label }) => (
+                  <TableHead key={`hi-${id}`}>HI ({label})</TableHead>
+                ))}
+                {POPULATIONS.map(({ id, label }) => (
+                  <TableHead key={`cr-${id}`}>CR ({label})</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assessedSamples.slice(0, 10).map((sample) => (
+                <TableRow key={sample.id}>
+                  <TableCell className="font-medium">{sample.id}</TableCell>
+                  {POPULATIONS.map(({ id }) => {
+                    const hazardIndex = sample.healthRisk![id].hazardIndex;
+                    return (
+                      <TableCell key={`hi-${id}`}>
+                        <div className="flex items-center gap-2">
+                          <span>{hazardIndex.toFixed(2)}</span>
+                          {hazardIndex > HAZARD_INDEX_THRESHOLD && (
+                            <AlertTriangle className="h-4 w-4 text-destructive" />
+                          )}
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                  {POPULATIONS.map(({ id }) => {
+                    const cancerRisk = sample.healthRisk![id].cancerRisk;
+                    return (
+                      <TableCell key={`cr-${id}`}>
+                        <div className="flex items-center gap-2">
+                          <span>{formatRisk(cancerRisk)}</span>
+                          {cancerRisk > CANCER_RISK_THRESHOLD && (
+                            <AlertTriangle className="h-4 w-4 text-destructive" />
+                          )}
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {assessedSamples.length > 10 && (
+            <div className="p-4 text-center text-sm text-muted-foreground border-t">
+              Showing 10 of {assessedSamples.length} samples
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HealthRiskResults;
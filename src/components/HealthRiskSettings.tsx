@@ -0,0 +1,152 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HeartPulse } from "lucide-react";
+import type { MetalSymbol } from "@/lib/indices";
+import type { ExposureParameters, HealthRiskParameters, MetalToxicity, Population } from "@/lib/health-risk";
+
+interface HealthRiskSettingsProps {
+  metals: MetalSymbol[]; // elements measured in the dataset
+  parameters: HealthRiskParameters;
+  onChange: (parameters: HealthRiskParameters) => void;
+}
+
+const EXPOSURE_FIELDS: { key: keyof ExposureParameters; label: string; unit: string }[] = [
+  { key: 'ingestionRate', label: 'Ingestion rate (IR)', unit: 'L/day' },
+  { key: 'bodyWeight', label: 'Body weight (BW)', unit: 'kg' },
+  { key: 'exposureFrequency', label: 'Exposure frequency (EF)', unit: 'days/year' },
+  { key: 'exposureDuration', label: 'Exposure duration (ED)', unit: 'years' },
+  { key: 'skinSurfaceArea', label: 'Skin surface area (SA)', unit: 'cm²' },
+  { key: 'exposureTime', label: 'Exposure time (ET)', unit: 'h/day' },
+  { key: 'averagingLifetime', label: 'Lifetime (carcinogenic AT)', unit: 'years' },
+];
+
+const TOXICITY_FIELDS: { key: keyof MetalToxicity; label: string }[] = [
+  { key: 'referenceDose', label: 'RfD (mg/kg/day)' },
+  { key: 'slopeFactor', label: 'SF (mg/kg/day)⁻¹' },
+  { key: 'permeability', label: 'Kp (cm/h)' },
+  { key: 'gastrointestinalAbsorption', label: 'GIABS' },
+];
+
+const POPULATIONS: { id: Population; label: string }[] = [
+  { id: 'adult', label: 'Adults' },
+  { id: 'child', label: 'Children' },
+];
+
+const HealthRiskSettings = ({ metals, parameters, onChange }: HealthRiskSettingsProps) => {
+  const handleExposureChange = (population: Population, key: keyof ExposureParameters, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0) return;
+
+    onChange({
+      ...parameters,
+      populations: {
+        ...parameters.populations,
+        [population]: { ...parameters.populations[population], [key]: parsed }
+      }
+    });
+  };
+
+  const handleToxicityChange = (metal: MetalSymbol, key: keyof MetalToxicity, value: string) => {
+    const parsed = parseFloat(value);
+    // Clearing the slope factor marks the metal as non-carcinogenic
+    if (value !== '' && (isNaN(parsed) || parsed < 0)) return;
+    if (value === '' && key !== 'slopeFactor') return;
+
+    onChange({
+      ...parameters,
+      toxicity: {
+        ...parameters.toxicity,
+        [metal]: { ...parameters.toxicity[metal], [key]: value === '' ? undefined : parsed }
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <HeartPulse className="h-5 w-5 text-primary" />
+          Exposure Parameters
+        </CardTitle>
+        <CardDescription>
+          USEPA ingestion and dermal exposure factors and toxicity values used for the health risk assessment
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parameter</TableHead>
+                <TableHead>Unit</TableHead>
+                {POPULATIONS.map(({ id, label }) => (
+                  <TableHead key={id}>{label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {EXPOSURE_FIELDS.map(({ key, label, unit }) => (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  <TableCell className="text-muted-foreground">{unit}</TableCell>
+                  {POPULATIONS.map(({ id }) => (
+                    <TableCell key={id}>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={parameters.populations[id][key]}
+                        onChange={(e) => handleExposureChange(id, key, e.target.value)}
+                        className="h-8 w-28"
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Toxicity values</Label>
+          <div className="rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metal</TableHead>
+                  {TOXICITY_FIELDS.map(({ key, label }) => (
+                    <TableHead key={key}>{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metals.filter(metal => parameters.toxicity[metal]).map((metal) => (
+                  <TableRow key={metal}>
+                    <TableCell className="font-medium">{metal}</TableCell>
+                    {TOXICITY_FIELDS.map(({ key }) => (
+                      <TableCell key={key}>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={parameters.toxicity[metal]?.[key] ?? ''}
+                          placeholder="—"
+                          onChange={(e) => handleToxicityChange(metal, key, e.target.value)}
+                          className="h-8 w-28"
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HealthRiskSettings;
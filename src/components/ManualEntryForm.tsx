@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarIcon, ClipboardPen, LocateFixed, Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { WaterSample } from "./Dashboard";
+import { useToast } from "@/hooks/use-toast";
+import type { CensoredValues } from "@/lib/bdl";
+import { ELEMENT_SYMBOLS, elementName } from "@/lib/elements";
+import { CoordinateAxis, parseCoordinate } from "@/lib/geo";
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import { CANONICAL_UNIT, CONCENTRATION_UNITS, ConcentrationUnit, ReportedUnits, toCanonical } from "@/lib/units";
+
+interface ManualEntryFormProps {
+  metals: MetalSymbol[]; // elements of the current dataset, offered first
+  existingIds: string[];
+  onAdd: (sample: WaterSample) => void;
+  onClose: () => void;
+}
+
+// Offered when there is no dataset yet to take the element list from
+const STARTER_ELEMENTS: MetalSymbol[] = ['As', 'Cd', 'Cr', 'Cu', 'Fe', 'Mn', 'Ni', 'Pb', 'Zn'];
+
+const UNIT_OPTIONS = Object.keys(CONCENTRATION_UNITS) as ConcentrationUnit[];
+
+const isNonNegative = (text: string) => text.trim() !== '' && !isNaN(Number(text)) && Number(text) >= 0;
+
+const concentrationSchema = z
+  .object({
+    metal: z.string(),
+    value: z.string(),
+    unit: z.string(),
+    belowDetection: z.boolean(),
+  })
+  .superRefine((entry, ctx) => {
+    if (entry.belowDetection ? entry.value.trim() !== '' && !isNonNegative(entry.value) : !isNonNegative(entry.value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['value'],
+        message: entry.belowDetection
+          ? 'Detection limit must be a non-negative number, or leave it blank'
+          : 'Enter a non-negative number, or tick BDL',
+      });
+    }
+  });
+
+const coordinateSchema = (axis: CoordinateAxis) =>
+  z.string().refine(
+    value => parseCoordinate(value, axis) !== undefined,
+    `Enter decimal degrees or degrees-minutes-seconds, e.g. ${axis === 'latitude' ? `12°58'17.8"N` : `77°35'40.2"E`}`
+  );
+
+const formSchema = z.object({
+  sampleId: z.string().trim().min(1, 'Sample ID is required'),
+  stationId: z.string().trim(),
+  latitude: coordinateSchema('latitude'),
+  longitude: coordinateSchema('longitude'),
+  sampleDate: z.date({ required_error: 'Pick the sampling date' }),
+  concentrations: z.array(concentrationSchema).min(1, 'Add at least one element'),
+});
+
+type ManualEntryValues = z.infer<typeof formSchema>;
+
+// Concentrations are converted to the canonical unit the same way uploaded columns are
+const toSample = (values: ManualEntryValues): WaterSample => {
+  const metals: MetalConcentrations = {};
+  const censored: CensoredValues = {};
+  const reportedUnits: ReportedUnits = {};
+
+  values.concentrations.forEach(({ metal, value, unit, belowDetection }) => {
+    const symbol = metal as MetalSymbol;
+    const reported = unit as ConcentrationUnit;
+    reportedUnits[symbol] = reported;
+    if (belowDetection) {
+      const detectionLimit = value.trim() ? toCanonical(Number(value), reported) : undefined;
+      metals[symbol] = detectionLimit ?? 0;
+      censored[symbol] = { raw: value.trim() ? `<${value.trim()}` : 'BDL', detectionLimit };
+    } else {
+      metals[symbol] = toCanonical(Number(value), reported);
+    }
+  });
+
+  return {
+    id: values.sampleId,
+    stationId: values.stationId || undefined,
+    latitude: parseCoordinate(values.latitude, 'latitude'),
+    longitude: parseCoordinate(values.longitude, 'longitude'),
+    sampleDate: format(values.sampleDate, 'yyyy-MM-dd'),
+    metals,
+    censored: Object.keys(censored).length > 0 ? censored : undefined,
+    reportedUnits,
+    addedManually: true,
+  };
+};
+
+const ManualEntryForm = ({ metals, existingIds, onAdd, onClose }: ManualEntryFormProps) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [accuracy, setAccuracy] = useState<number | undefined>();
+  const { toast } = useToast();
+
+  const blankValues = (): ManualEntryValues => ({
+    sampleId: '',
+    stationId: '',
+    latitude: '',
+    longitude: '',
+    sampleDate: new Date(),
+    concentrations: (metals.length > 0 ? metals : STARTER_ELEMENTS).map(metal => ({
+      metal,
+      value: '',
+      unit: CANONICAL_UNIT,
+      belowDetection: false,
+    })),
+  });
+
+  const form = useForm<ManualEntryValues>({
+    resolver: zodResolver(
+      formSchema.refine(values => !existingIds.includes(values.sampleId.trim()), {
+        path: ['sampleId'],
+        message: 'A sample with this ID is already in the dataset',
+      })
+    ),
+    defaultValues: blankValues(),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'concentrations' });
+
+  const usedMetals = form.watch('concentrations').map(entry => entry.metal);
+  const availableMetals = ELEMENT_SYMBOLS.filter(symbol => !usedMetals.includes(symbol));
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "This browser cannot share its location", variant: "destructive" });
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        form.setValue('latitude', position.coords.latitude.toFixed(6), { shouldValidate: true });
+        form.setValue('longitude', position.coords.longitude.toFixed(6), { shouldValidate: true });
+        setAccuracy(position.coords.accuracy);
+        setIsLocating(false);
+      },
+      (error) => {
+        setIsLocating(false);
+        toast({ title: "Could not get your location", description: error.message, variant: "destructive" });
+      },
+      { enableHighAccuracy: true, timeout: 20000 }
+    );
+  };
+
+  const handleSubmit = (values: ManualEntryValues) => {
+    const sample = toSample(values);
+    onAdd(sample);
+    toast({ title: "Sample added", description: `${sample.id} was added to the dataset` });
+    // Keep the element list and units for the next sample from the same round
+    form.reset({ ...blankValues(), concentrations: values.concentrations.map(entry => ({ ...entry, value: '', belowDetection: false })) });
+    setAccuracy(undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ClipboardPen className="h-5 w-5 text-primary" />
+            Add Sample Manually
+          </CardTitle>
+          <CardDescription>
+            Enter a sample by hand; it is added to the current dataset and can be corrected in the grid
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="grid md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="sampleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sample ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Station (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sampleDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Sampling date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn('justify-start text-left font-normal', !field.value && 'text-muted-foreground')}
+                          >
+                            <CalendarIcon className="h-4 w-4 mr-2" />
+                            {field.value ? format(field.value, 'PPP') : 'Pick a date'}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          disabled={(date) => date > new Date()}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid md:grid-cols-[1fr_1fr_auto] gap-4 items-start">
+              <FormField
+                control={form.control}
+                name="latitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latitude</FormLabel>
+                    <FormControl>
+                      <Input placeholder={`12.9716 or 12°58'17.8"N`} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="longitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Longitude</FormLabel>
+                    <FormControl>
+                      <Input placeholder={`77.5946 or 77°35'40.6"E`} {...field} />
+                    </FormControl>
+                    {accuracy !== undefined && (
+                      <FormDescription>From this device, accurate to about {Math.round(accuracy)} m</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="outline" className="md:mt-8" onClick={handleUseLocation} disabled={isLocating}>
+                <LocateFixed className="h-4 w-4 mr-2" />
+                {isLocating ? 'Locating...' : 'Use My Location'}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <FormLabel>Concentrations</FormLabel>
+                {availableMetals.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(metal) => append({ metal, value: '', unit: CANONICAL_UNIT, belowDetection: false })}
+                  >
+                    <SelectTrigger className="h-8 w-44">
+                      <Plus className="h-4 w-4" />
+                      <SelectValue placeholder="Add element" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableMetals.map(symbol => (
+                        <SelectItem key={symbol} value={symbol}>{elementName(symbol)} ({symbol})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="rounded-lg border divide-y">
+                {fields.map((entry, index) => (
+                  <div key={entry.id} className="grid grid-cols-[6rem_1fr_7rem_5rem_auto] gap-3 items-start p-2">
+                    <div className="pt-2 text-sm font-medium">
+                      {elementName(entry.metal as MetalSymbol)} ({entry.metal})
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name={`concentrations.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              inputMode="decimal"
+                              placeholder={form.watch(`concentrations.${index}.belowDetection`) ? 'Detection limit (optional)' : 'Concentration'}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`concentrations.${index}.unit`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {UNIT_OPTIONS.map(unit => (
+                                <SelectItem key={unit} value={unit}>{CONCENTRATION_UNITS[unit].label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`concentrations.${index}.belowDetection`}
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0 pt-2">
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                          </FormControl>
+                          <FormLabel className="font-normal">BDL</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)} title="Remove element">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {form.formState.errors.concentrations?.root && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.concentrations.root.message}</p>
+              )}
+              {form.formState.errors.concentrations?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.concentrations.message}</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Done
+              </Button>
+              <Button type="submit">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Sample
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ManualEntryForm;
@@ -0,0 +1,190 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitMerge, X } from "lucide-react";
+import { WaterSample } from "./Dashboard";
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  DuplicateGroup,
+  MERGE_STRATEGIES,
+  MergeStrategy,
+  findDuplicates,
+  resolveDuplicates,
+} from "@/lib/merge";
+
+interface MergeReviewProps {
+  existing: WaterSample[]; // confirmed dataset, without results
+  incoming: WaterSample[]; // tagged with their batch, IDs already made unique
+  onMerge: (samples: WaterSample[]) => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED = 50;
+const STRATEGIES = Object.keys(MERGE_STRATEGIES) as MergeStrategy[];
+
+const REASON_LABELS: Record<DuplicateGroup['reason'], string> = {
+  'station-date': 'Same station and date',
+  nearby: 'Same date, nearby position',
+  'station-undated': 'Same station, no date',
+  'nearby-undated': 'Nearby position, no date',
+};
+
+const MergeReview = ({ existing, incoming, onMerge, onCancel }: MergeReviewProps) => {
+  // The typed tolerance is applied on blur or Enter, so duplicates are not searched per keystroke
+  const [toleranceDraft, setToleranceDraft] = useState(String(DEFAULT_DUPLICATE_OPTIONS.toleranceMeters));
+  const [toleranceMeters, setToleranceMeters] = useState(DEFAULT_DUPLICATE_OPTIONS.toleranceMeters);
+  const [defaultStrategy, setDefaultStrategy] = useState<MergeStrategy>('keep-first');
+  const [overrides, setOverrides] = useState<Record<string, MergeStrategy>>({});
+
+  const combined = useMemo(() => [...existing, ...incoming], [existing, incoming]);
+  const groups = useMemo(
+    () => findDuplicates(combined, { toleranceMeters }, existing.length),
+    [combined, toleranceMeters, existing.length]
+  );
+  const strategyOf = (group: DuplicateGroup) => overrides[group.key] ?? defaultStrategy;
+  const merged = useMemo(
+    () => resolveDuplicates(combined, groups, group => overrides[group.key] ?? defaultStrategy),
+    [combined, groups, defaultStrategy, overrides]
+  );
+
+  const commitTolerance = () => {
+    const value = Math.max(0, parseFloat(toleranceDraft) || 0);
+    setToleranceMeters(value);
+    setToleranceDraft(String(value));
+  };
+
+  const describe = (index: number) => {
+    const sample = combined[index];
+    return [
+      sample.id,
+      sample.stationId,
+      sample.sampleDate ?? 'no date',
+      index < existing.length ? `dataset · ${sample.source?.batch ?? 'no batch'}` : `new · ${sample.source?.batch}`,
+    ].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <GitMerge className="h-5 w-5 text-primary" />
+            Add to Dataset
+          </CardTitle>
+          <CardDescription>
+            {incoming.length} new samples join {existing.length} in the dataset · {groups.length} possible duplicates
+            {' '}· {merged.length} samples after merging
+            <br />
+            Samples are duplicates when they share a date and either their station or a position within the tolerance;
+            {' '}samples without a date are matched only with other undated samples
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onMerge(merged)}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge {merged.length} Samples
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="merge-tolerance" className="text-sm">Position tolerance (m)</Label>
+            <Input
+              id="merge-tolerance"
+              type="number"
+              min={0}
+              step="any"
+              value={toleranceDraft}
+              onChange={(e) => setToleranceDraft(e.target.value)}
+              onBlur={commitTolerance}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTolerance();
+              }}
+              className="h-8 w-24"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="merge-strategy" className="text-sm">Resolve duplicates by</Label>
+            <Select
+              value={defaultStrategy}
+              onValueChange={(value) => {
+                setDefaultStrategy(value as MergeStrategy);
+                setOverrides({});
+              }}
+            >
+              <SelectTrigger id="merge-strategy" className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STRATEGIES.map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{MERGE_STRATEGIES[strategy].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">{MERGE_STRATEGIES[defaultStrategy].description}</span>
+          </div>
+        </div>
+
+        {groups.length > 0 ? (
+          <div className="rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Samples</TableHead>
+                  <TableHead>Resolution</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.slice(0, MAX_LISTED).map(group => (
+                  <TableRow key={group.key}>
+                    <TableCell>
+                      <Badge variant="outline">{REASON_LABELS[group.reason]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {group.members.map(index => <div key={index}>{describe(index)}</div>)}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={strategyOf(group)}
+                        onValueChange={(value) => setOverrides(prev => ({ ...prev, [group.key]: value as MergeStrategy }))}
+                      >
+                        <SelectTrigger className="h-8 w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STRATEGIES.map(strategy => (
+                            <SelectItem key={strategy} value={strategy}>{MERGE_STRATEGIES[strategy].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {groups.length > MAX_LISTED && (
+              <div className="p-4 text-center text-sm text-muted-foreground border-t">
+                ... and {groups.length - MAX_LISTED} more, resolved by the default
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No duplicates found; every new sample will be added</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MergeReview;
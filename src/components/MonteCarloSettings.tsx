@@ -0,0 +1,136 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dices } from "lucide-react";
+import {
+  MAX_MONTE_CARLO_ITERATIONS,
+  DistributionSpec,
+  DistributionType,
+  MonteCarloConfig,
+  SampledExposureParameter,
+} from "@/lib/uncertainty";
+
+interface MonteCarloSettingsProps {
+  config: MonteCarloConfig;
+  onChange: (config: MonteCarloConfig) => void;
+  includeExposure: boolean;
+}
+
+const DISTRIBUTIONS: { id: DistributionType; label: string }[] = [
+  { id: 'normal', label: 'Normal' },
+  { id: 'lognormal', label: 'Lognormal' },
+  { id: 'triangular', label: 'Triangular' },
+];
+
+const EXPOSURE_LABELS: Record<SampledExposureParameter, string> = {
+  ingestionRate: 'Ingestion rate',
+  bodyWeight: 'Body weight',
+  exposureDuration: 'Exposure duration',
+};
+
+interface DistributionFieldProps {
+  id: string;
+  label: string;
+  spec: DistributionSpec;
+  onChange: (spec: DistributionSpec) => void;
+}
+
+const DistributionField = ({ id, label, spec, onChange }: DistributionFieldProps) => (
+  <div className="grid grid-cols-3 items-center gap-3">
+    <Label htmlFor={id} className="text-sm">{label}</Label>
+    <Select value={spec.type} onValueChange={(value) => onChange({ ...spec, type: value as DistributionType })}>
+      <SelectTrigger id={id} className="h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DISTRIBUTIONS.map(({ id, label }) => (
+          <SelectItem key={id} value={id}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={0}
+        step={1}
+        value={Math.round(spec.spread * 100)}
+        onChange={(e) => onChange({ ...spec, spread: Math.max(0, parseFloat(e.target.value) || 0) / 100 })}
+        className="h-8"
+        aria-label={`${label} spread`}
+      />
+      <span className="text-sm text-muted-foreground">%</span>
+    </div>
+  </div>
+);
+
+const MonteCarloSettings = ({ config, onChange, includeExposure }: MonteCarloSettingsProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Dices className="h-5 w-5 text-primary" />
+          Monte Carlo Settings
+        </CardTitle>
+        <CardDescription>
+          Spread is the coefficient of variation for normal and lognormal distributions and the
+          relative half-width around the measured value for triangular ones
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mc-iterations">Iterations</Label>
+            <Input
+              id="mc-iterations"
+              type="number"
+              min={100}
+              max={MAX_MONTE_CARLO_ITERATIONS}
+              step={100}
+              value={config.iterations}
+              onChange={(e) => onChange({
+                ...config,
+                iterations: Math.min(MAX_MONTE_CARLO_ITERATIONS, Math.max(100, parseInt(e.target.value) || 100))
+              })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-seed">Random seed</Label>
+            <Input
+              id="mc-seed"
+              type="number"
+              step={1}
+              value={config.seed}
+              onChange={(e) => onChange({ ...config, seed: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3 text-sm text-muted-foreground">
+            <span>Parameter</span>
+            <span>Distribution</span>
+            <span>Spread</span>
+          </div>
+          <DistributionField
+            id="mc-concentration"
+            label="Metal concentrations"
+            spec={config.concentration}
+            onChange={(concentration) => onChange({ ...config, concentration })}
+          />
+          {includeExposure && (Object.keys(config.exposure) as SampledExposureParameter[]).map((key) => (
+            <DistributionField
+              key={key}
+              id={`mc-${key}`}
+              label={EXPOSURE_LABELS[key]}
+              spec={config.exposure[key]}
+              onChange={(spec) => onChange({ ...config, exposure: { ...config.exposure, [key]: spec } })}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonteCarloSettings;
@@ -1,14 +1,28 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
-import { TrendingUp, Download, Filter, BarChart3 } from "lucide-react";
+import { TrendingUp, Download, Filter, BarChart3, ChevronLeft, ChevronRight } from "lucide-react";
 import { WaterSample } from "./Dashboard";
+import HealthRiskResults from "./HealthRiskResults";
+import UncertaintyResults from "./UncertaintyResults";
+import SampleFilterBar from "./SampleFilterBar";
+import GroupSummary from "./GroupSummary";
+import ExceedanceAnalysis from "./ExceedanceAnalysis";
+import { SampleAttribute, SampleFilter, applySampleFilter, attributeLabel, metadataValue } from "@/lib/metadata";
+import { HPI_METHODS, MetalSymbol, describeCategoryRule } from "@/lib/indices";
+import { ELEMENT_SYMBOLS, elementName } from "@/lib/elements";
+import { downloadCsv, resultsTable } from "@/lib/export";
+import { CANONICAL_UNIT } from "@/lib/units";
+import { BDL_POLICIES, countCensored, resolveConcentrations } from "@/lib/bdl";
+import { pageOf } from "@/lib/grid";
+import { exceedanceRatios } from "@/lib/exceedance";
+import { SampleStore, forEachSample } from "@/lib/store";
 
 interface ResultsVisualizationProps {
-  samples: WaterSample[];
+  samples: SampleStore;
 }
 
 const QUALITY_COLORS = {
@@ -19,25 +33,78 @@ const QUALITY_COLORS = {
   unsuitable: 'hsl(var(--unsuitable))'
 };
 
+const QUALITY_BADGE_CLASSES = {
+  excellent: 'bg-excellent text-excellent-foreground',
+  good: 'bg-good text-good-foreground',
+  moderate: 'bg-moderate text-moderate-foreground',
+  poor: 'bg-poor text-poor-foreground',
+  unsuitable: 'bg-unsuitable text-unsuitable-foreground'
+};
+
+const RESULTS_PAGE_SIZE = 10;
+
+// Optional indices shown as extra table columns once any sample carries them
+const BANDED_INDEX_COLUMNS: { id: 'hei' | 'cd' | 'nemerow' | 'mi' | 'igeo' | 'ef' | 'ri'; label: string }[] = [
+  { id: 'hei', label: 'HEI' },
+  { id: 'cd', label: 'Cd' },
+  { id: 'nemerow', label: 'PN' },
+  { id: 'mi', label: 'MI' },
+  { id: 'igeo', label: 'Igeo (max)' },
+  { id: 'ef', label: 'EF (max)' },
+  { id: 'ri', label: 'RI' },
+];
+
 const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
-  const processedSamples = samples.filter(s => s.hmpiResults);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filter, setFilter] = useState<SampleFilter>({});
+  const [groupBy, setGroupBy] = useState<SampleAttribute | undefined>();
+  const [page, setPage] = useState(0);
+  // Memoised so the statistics and charts below only recompute when the data or filter change,
+  // not on every page turn. The lists hold the stored samples, not copies.
+  const allProcessedSamples = useMemo(() => {
+    const calculated: WaterSample[] = [];
+    forEachSample(samples, sample => {
+      if (sample.hmpiResults) calculated.push(sample);
+    });
+    return calculated;
+  }, [samples]);
+  // Every statistic, chart and table below reflects the metadata filter
+  const processedSamples = useMemo(() => applySampleFilter(allProcessedSamples, filter), [allProcessedSamples, filter]);
+  // The comparison chart and the results table show one page of samples at a time
+  const resultsPage = pageOf(processedSamples, page, RESULTS_PAGE_SIZE);
+  // HPI and PLI are optional like the rest; their columns and statistics follow the selection
+  const { bandedColumns, showEcologicalRisk, showHpi, showPli } = useMemo(() => ({
+    bandedColumns: BANDED_INDEX_COLUMNS.filter(({ id }) => processedSamples.some(s => s.hmpiResults![id] !== undefined)),
+    showEcologicalRisk: processedSamples.some(s => s.hmpiResults!.details.ri),
+    showHpi: processedSamples.some(s => s.hmpiResults!.hpi !== undefined),
+    showPli: processedSamples.some(s => s.hmpiResults!.pli !== undefined),
+  }), [processedSamples]);
+
+  const standards = useMemo(() => {
+    const labels = processedSamples.map(s => `${s.hmpiResults!.standard.name} (${s.hmpiResults!.standard.version})`);
+    return Array.from(new Set(labels));
+  }, [processedSamples]);
 
+  // One pass over the samples; spreading hundreds of thousands of values into Math.min/max
+  // overflows the call stack. Samples without the index are left out rather than counted as 0.
   const statisticsData = useMemo(() => {
-    const hpiValues = processedSamples.map(s => s.hmpiResults!.hpi);
-    const pliValues = processedSamples.map(s => s.hmpiResults!.pli);
-    
-    return {
-      hpi: {
-        min: Math.min(...hpiValues),
-        max: Math.max(...hpiValues),
-        avg: hpiValues.reduce((a, b) => a + b, 0) / hpiValues.length,
-      },
-      pli: {
-        min: Math.min(...pliValues),
-        max: Math.max(...pliValues),
-        avg: pliValues.reduce((a, b) => a + b, 0) / pliValues.length,
-      }
+    const hpi = { min: Infinity, max: -Infinity, avg: 0, count: 0 };
+    const pli = { min: Infinity, max: -Infinity, avg: 0, count: 0 };
+    const add = (stats: typeof hpi, value?: number) => {
+      if (value === undefined) return;
+      stats.min = Math.min(stats.min, value);
+      stats.max = Math.max(stats.max, value);
+      stats.avg += value;
+      stats.count++;
     };
+    processedSamples.forEach(({ hmpiResults }) => {
+      add(hpi, hmpiResults!.hpi);
+      add(pli, hmpiResults!.pli);
+    });
+    [hpi, pli].forEach(stats => {
+      if (stats.count > 0) stats.avg /= stats.count;
+    });
+    return { hpi, pli };
   }, [processedSamples]);
 
   const qualityDistribution = useMemo(() => {
@@ -56,37 +123,45 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
   }, [processedSamples]);
 
   const chartData = useMemo(() => {
-    return processedSamples.slice(0, 10).map((sample, index) => ({
-      id: `Sample ${index + 1}`,
-      hpi: Math.round(sample.hmpiResults!.hpi * 100) / 100,
-      pli: Math.round(sample.hmpiResults!.pli * 100) / 100,
+    return resultsPage.items.map((sample, index) => ({
+      id: `Sample ${resultsPage.start + index + 1}`,
+      hpi: sample.hmpiResults!.hpi === undefined ? undefined : Math.round(sample.hmpiResults!.hpi * 100) / 100,
+      pli: sample.hmpiResults!.pli === undefined ? undefined : Math.round(sample.hmpiResults!.pli * 100) / 100,
       category: sample.hmpiResults!.qualityCategory
     }));
-  }, [processedSamples]);
+  }, [resultsPage.items, resultsPage.start]);
+
+  const censoredCount = useMemo(
+    () => processedSamples.reduce((acc, s) => acc + countCensored(s.censored), 0),
+    [processedSamples]
+  );
 
+  // Mean of each element as the indices saw it, with non-detects substituted or excluded;
+  // summed in one pass rather than keeping the resolved values of every sample
   const metalContributionData = useMemo(() => {
-    const metals = ['As', 'Cd', 'Cr', 'Cu', 'Fe', 'Mn', 'Ni', 'Pb', 'Zn'];
-    return metals.map(metal => {
-      const avgConcentration = processedSamples.reduce((sum, sample) => {
-        return sum + sample.metals[metal as keyof typeof sample.metals];
-      }, 0) / processedSamples.length;
-      
-      return {
-        metal,
-        concentration: Math.round(avgConcentration * 1000) / 1000,
-        name: metal === 'As' ? 'Arsenic' : 
-              metal === 'Cd' ? 'Cadmium' : 
-              metal === 'Cr' ? 'Chromium' : 
-              metal === 'Cu' ? 'Copper' : 
-              metal === 'Fe' ? 'Iron' : 
-              metal === 'Mn' ? 'Manganese' : 
-              metal === 'Ni' ? 'Nickel' : 
-              metal === 'Pb' ? 'Lead' : 'Zinc'
-      };
+    const totals = new Map<MetalSymbol, { sum: number; count: number }>();
+    processedSamples.forEach(s => {
+      const metals = resolveConcentrations(s.metals, s.censored, s.hmpiResults!.bdlPolicy);
+      (Object.keys(metals) as MetalSymbol[]).forEach(metal => {
+        const total = totals.get(metal) ?? { sum: 0, count: 0 };
+        total.sum += metals[metal];
+        total.count++;
+        totals.set(metal, total);
+      });
     });
+    return ELEMENT_SYMBOLS.filter(metal => totals.has(metal)).map(metal => ({
+      metal,
+      concentration: Math.round(totals.get(metal).sum / totals.get(metal).count * 1000) / 1000,
+      name: elementName(metal)
+    }));
   }, [processedSamples]);
 
-  if (processedSamples.length === 0) {
+  const handleExport = () => {
+    const { columns, rows } = resultsTable(processedSamples);
+    downloadCsv('hmpi-results.csv', columns, rows);
+  };
+
+  if (allProcessedSamples.length === 0) {
     return (
       <Card>
         <CardContent className="flex items-center justify-center h-64">
@@ -102,6 +177,18 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
 
   return (
     <div className="space-y-6">
+      {showFilters && (
+        <SampleFilterBar
+          samples={allProcessedSamples}
+          filter={filter}
+          onFilterChange={setFilter}
+          groupBy={groupBy}
+          onGroupByChange={setGroupBy}
+        />
+      )}
+
+      {groupBy && processedSamples.length > 0 && <GroupSummary samples={processedSamples} groupBy={groupBy} />}
+
       {/* Overview Statistics */}
       <div className="grid md:grid-cols-4 gap-4">
         <Card>
@@ -113,23 +200,27 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
           </CardHeader>
         </Card>
         
-        <Card>
-          <CardHeader className="pb-2">
-            <CardDescription>Average HPI</CardDescription>
-            <CardTitle className="text-3xl font-bold text-accent">
-              {statisticsData.hpi.avg.toFixed(1)}
-            </CardTitle>
-          </CardHeader>
-        </Card>
-        
-        <Card>
-          <CardHeader className="pb-2">   
-            <CardDescription>Average PLI</CardDescription>
-            <CardTitle className="text-3xl font-bold text-accent">
-              {statisticsData.pli.avg.toFixed(2)}
-            </CardTitle>
-          </CardHeader>
-        </Card>
+        {showHpi && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Average HPI</CardDescription>
+              <CardTitle className="text-3xl font-bold text-accent">
+                {statisticsData.hpi.avg.toFixed(1)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        )}
+
+        {showPli && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Average PLI</CardDescription>
+              <CardTitle className="text-3xl font-bold text-accent">
+                {statisticsData.pli.avg.toFixed(2)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        )}
         
         <Card>
           <CardHeader className="pb-2">
@@ -185,26 +276,28 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
         </Card>
 
         {/* HPI vs PLI Comparison */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Pollution Index Comparison</CardTitle>
-            <CardDescription>
-              HPI and PLI values for top 10 samples
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="id" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="hpi" fill="hsl(var(--primary))" name="HPI" />
-                <Bar dataKey="pli" fill="hsl(var(--accent))" name="PLI" />
-              </BarChart>
-            </ResponsiveContainer>
-          </CardContent>
-        </Card>
+        {(showHpi || showPli) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pollution Index Comparison</CardTitle>
+              <CardDescription>
+                {[showHpi && 'HPI', showPli && 'PLI'].filter(Boolean).join(' and ')} values for samples {resultsPage.start + 1}–{resultsPage.start + resultsPage.items.length}, as in the results table
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="id" />
+                  <YAxis />
+                  <Tooltip />
+                  {showHpi && <Bar dataKey="hpi" fill="hsl(var(--primary))" name="HPI" />}
+                  {showPli && <Bar dataKey="pli" fill="hsl(var(--accent))" name="PLI" />}
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Metal Concentrations Chart */}
@@ -212,7 +305,10 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
         <CardHeader>
           <CardTitle>Average Heavy Metal Concentrations</CardTitle>
           <CardDescription>
-            Mean concentration levels across all samples (mg/L)
+            Mean concentration levels across all samples ({CANONICAL_UNIT}, converted from the reported units)
+            {censoredCount > 0 && (
+              <> · {censoredCount} non-detects treated as {BDL_POLICIES[processedSamples[0].hmpiResults!.bdlPolicy].name}</>
+            )}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -222,7 +318,7 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
               <XAxis type="number" />
               <YAxis dataKey="name" type="category" width={80} />
               <Tooltip 
-                formatter={(value, name) => [`${value} mg/L`, 'Concentration']}
+                formatter={(value) => [`${value} ${CANONICAL_UNIT}`, 'Concentration']}
                 labelFormatter={(label) => `${label}`}
               />
               <Bar dataKey="concentration" fill="hsl(var(--primary))" />
@@ -231,21 +327,30 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
         </CardContent>
       </Card>
 
+      <ExceedanceAnalysis samples={processedSamples} />
+
       {/* Detailed Results Table */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
             <CardTitle>Detailed Results</CardTitle>
             <CardDescription>
-              Complete analysis results for all samples
+              Complete analysis results for {filter.key && filter.value ? <>samples with {attributeLabel(filter.key)} {filter.value}</> : 'all samples'}
+              {standards.length > 0 && <> · Computed against {standards.join(', ')}</>}
+              {processedSamples.length > 0 && (
+                <> · Quality category: {describeCategoryRule(processedSamples[0].hmpiResults!.categoryRule)}</>
+              )}
+              {censoredCount > 0 && (
+                <> · Non-detects: {censoredCount} values, {BDL_POLICIES[processedSamples[0].hmpiResults!.bdlPolicy].description.toLowerCase()}</>
+              )}
             </CardDescription>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm">
+            <Button variant={showFilters ? 'secondary' : 'outline'} size="sm" onClick={() => setShowFilters(!showFilters)}>
               <Filter className="h-4 w-4 mr-2" />
               Filter
             </Button>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={handleExport}>
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
@@ -258,37 +363,95 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
                 <TableRow>
                   <TableHead>Sample ID</TableHead>
                   <TableHead>Location</TableHead>
-                  <TableHead>HPI</TableHead>
-                  <TableHead>PLI</TableHead>
+                  {showHpi && <TableHead>HPI</TableHead>}
+                  {showPli && <TableHead>PLI</TableHead>}
+                  {bandedColumns.map(({ id, label }) => (
+                    <TableHead key={id}>{label}</TableHead>
+                  ))}
+                  {showEcologicalRisk && <TableHead>Er by Metal</TableHead>}
                   <TableHead>Quality</TableHead>
-                  <TableHead>Key Pollutants</TableHead>
+                  <TableHead>Key Pollutants (Ci/Si)</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {processedSamples.slice(0, 10).map((sample) => {
-                  const topPollutants = Object.entries(sample.metals)
-                    .sort(([,a], [,b]) => (b as number) - (a as number))
-                    .slice(0, 2)
-                    .map(([metal]) => metal);
+                {resultsPage.items.map((sample) => {
+                  // Ranked by how far each element is over its limit, not by mg/L
+                  const topPollutants = exceedanceRatios(
+                    resolveConcentrations(sample.metals, sample.censored, sample.hmpiResults!.bdlPolicy),
+                    sample.hmpiResults!.standard.limits
+                  ).slice(0, 2);
 
                   return (
                     <TableRow key={sample.id}>
-                      <TableCell className="font-medium">{sample.id}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{sample.id}</div>
+                        {sample.stationId && (
+                          <div className="text-xs text-muted-foreground">Station {sample.stationId}</div>
+                        )}
+                        {(metadataValue(sample.metadata, 'village') || metadataValue(sample.metadata, 'district')) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[metadataValue(sample.metadata, 'village'), metadataValue(sample.metadata, 'district')].filter(Boolean).join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <div className="text-sm">
                           <div>{sample.latitude.toFixed(4)}</div>
                           <div className="text-muted-foreground">{sample.longitude.toFixed(4)}</div>
                         </div>
                       </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <span>{sample.hmpiResults!.hpi.toFixed(1)}</span>
-                          {sample.hmpiResults!.hpi > 75 && (
-                            <TrendingUp className="h-4 w-4 text-destructive" />
+                      {showHpi && (
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span>{sample.hmpiResults!.hpi?.toFixed(1) ?? '—'}</span>
+                            {sample.hmpiResults!.hpi > 75 && (
+                              <TrendingUp className="h-4 w-4 text-destructive" />
+                            )}
+                          </div>
+                          {sample.hmpiResults!.hpiMethod && (
+                            <div
+                              className="text-xs text-muted-foreground"
+                              title={HPI_METHODS[sample.hmpiResults!.hpiMethod].formula}
+                            >
+                              {HPI_METHODS[sample.hmpiResults!.hpiMethod].name}
+                            </div>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell>{sample.hmpiResults!.pli.toFixed(2)}</TableCell>
+                        </TableCell>
+                      )}
+                      {showPli && <TableCell>{sample.hmpiResults!.pli?.toFixed(2) ?? '—'}</TableCell>}
+                      {bandedColumns.map(({ id }) => {
+                        const value = sample.hmpiResults![id];
+                        const band = sample.hmpiResults!.classes[id];
+                        return (
+                          <TableCell key={id}>
+                            {value === undefined ? '—' : (
+                              <div className="flex items-center gap-2">
+                                <span>{value.toFixed(2)}</span>
+                                {band && (
+                                  <Badge className={`text-xs ${QUALITY_BADGE_CLASSES[band.category]}`}>
+                                    {band.label}
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      {showEcologicalRisk && (
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1 max-w-xs">
+                            {sample.hmpiResults!.details.ri?.metals.map(({ metal, er, risk }) => (
+                              <Badge
+                                key={metal}
+                                className={`text-xs ${QUALITY_BADGE_CLASSES[risk.category]}`}
+                                title={`${metal}: ${risk.label} ecological risk`}
+                              >
+                                {metal} {er.toFixed(1)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      )}
                       <TableCell>
                         <Badge 
                           className={`${
@@ -304,9 +467,14 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-1">
-                          {topPollutants.map(metal => (
-                            <Badge key={metal} variant="outline" className="text-xs">
-                              {metal}
+                          {topPollutants.map(({ metal, ratio }) => (
+                            <Badge
+                              key={metal}
+                              variant="outline"
+                              className={`text-xs ${ratio > 1 ? 'border-destructive text-destructive' : ''}`}
+                              title={`${metal} at ${ratio.toFixed(2)} × the permissible limit`}
+                            >
+                              {metal} {ratio.toFixed(2)}×
                             </Badge>
                           ))}
                         </div>
@@ -316,14 +484,34 @@ const ResultsVisualization = ({ samples }: ResultsVisualizationProps) => {
                 })}
               </TableBody>
             </Table>
-            {processedSamples.length > 10 && (
-              <div className="p-4 text-center text-sm text-muted-foreground border-t">
-                Showing 10 of {processedSamples.length} samples
+            {resultsPage.pageCount > 1 && (
+              <div className="flex items-center justify-between p-4 text-sm text-muted-foreground border-t">
+                <span>
+                  Showing {resultsPage.start + 1}–{resultsPage.start + resultsPage.items.length} of {processedSamples.length} samples
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(resultsPage.page - 1)} disabled={resultsPage.page === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span>Page {resultsPage.page + 1} of {resultsPage.pageCount}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(resultsPage.page + 1)}
+                    disabled={resultsPage.page >= resultsPage.pageCount - 1}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             )}
           </div>
         </CardContent>
       </Card>
+
+      <HealthRiskResults samples={processedSamples} />
+
+      <UncertaintyResults samples={processedSamples} />
     </div>
   );
 };
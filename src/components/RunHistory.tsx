@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, GitCompare, History } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { QualityCategory } from "@/lib/indices";
+import { BDL_POLICIES } from "@/lib/bdl";
+import { MAX_RUNS, RunRecord, compareParameters, diffRuns, runLabel, shortHash } from "@/lib/runs";
+
+interface RunHistoryProps {
+  runs: RunRecord[]; // oldest first
+  activeRunId?: string; // run shown in Results and on the map; none after new data is loaded
+  datasetHash?: string; // hash of the working dataset, once it has been calculated
+  loadingRunId?: string; // run being recalculated to be viewed
+  onSelectRun: (id: string) => void;
+}
+
+const MAX_LISTED = 50;
+
+const CATEGORY_BADGE_CLASSES: Record<QualityCategory, string> = {
+  excellent: 'bg-excellent text-excellent-foreground',
+  good: 'bg-good text-good-foreground',
+  moderate: 'bg-moderate text-moderate-foreground',
+  poor: 'bg-poor text-poor-foreground',
+  unsuitable: 'bg-unsuitable text-unsuitable-foreground'
+};
+
+const categoryBadge = (category?: QualityCategory) =>
+  category ? (
+    <Badge className={`text-xs ${CATEGORY_BADGE_CLASSES[category]}`}>{category}</Badge>
+  ) : (
+    <span className="text-xs text-muted-foreground">not calculated</span>
+  );
+
+const formatHpi = (hpi?: number) => (hpi === undefined ? '—' : hpi.toFixed(2));
+
+const RunHistory = ({ runs, activeRunId, datasetHash, loadingRunId, onSelectRun }: RunHistoryProps) => {
+  const latest = runs[runs.length - 1];
+  const [baseId, setBaseId] = useState<string | undefined>();
+  const [otherId, setOtherId] = useState<string | undefined>();
+
+  // By default the run before the viewed one, or the latest, is compared with it
+  const viewing = runs.find(run => run.id === activeRunId);
+  const active = viewing ?? latest;
+  const base = runs.find(run => run.id === baseId) ?? runs[Math.max(0, runs.indexOf(active) - 1)];
+  const other = runs.find(run => run.id === otherId) ?? active;
+  const comparing = runs.length > 1 && base !== other;
+  const parameters = useMemo(() => (comparing ? compareParameters(base, other) : []), [comparing, base, other]);
+  const diff = useMemo(() => (comparing ? diffRuns(base, other) : undefined), [comparing, base, other]);
+
+  const runSelect = (value: string, onChange: (id: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="h-8 w-64">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {runs.map(run => (
+          <SelectItem key={run.id} value={run.id}>{runLabel(run)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5 text-primary" />
+          Run History
+        </CardTitle>
+        <CardDescription>
+          Every calculation is kept with its parameters, a hash of the data it ran on and each sample's category · the last {MAX_RUNS} runs
+          of this session are kept, and runs on the current data can be viewed again
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Run</TableHead>
+                <TableHead>Calculated</TableHead>
+                <TableHead>Indices</TableHead>
+                <TableHead>Standard</TableHead>
+                <TableHead>Non-detects</TableHead>
+                <TableHead>Dataset</TableHead>
+                <TableHead>Samples</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...runs].reverse().map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-medium">{run.version}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">{run.settings.indices.map(id => id.toUpperCase()).join(', ')}</TableCell>
+                  <TableCell className="text-sm">{run.settings.standard.name} ({run.settings.standard.version})</TableCell>
+                  <TableCell className="text-sm">{BDL_POLICIES[run.settings.bdlPolicy].name}</TableCell>
+                  <TableCell className="font-mono text-xs" title={run.datasetHash}>{shortHash(run.datasetHash)}</TableCell>
+                  <TableCell className="text-sm">
+                    {run.results.length - run.failures.length}
+                    {run.failures.length > 0 && <span className="text-destructive"> ({run.failures.length} failed)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {run.id === viewing?.id ? (
+                      <Badge variant="outline">Viewing</Badge>
+                    ) : datasetHash === undefined || run.datasetHash === datasetHash ? (
+                      <Button variant="outline" size="sm" onClick={() => onSelectRun(run.id)} disabled={loadingRunId !== undefined}>
+                        {loadingRunId === run.id ? 'Loading...' : 'View'}
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground" title="Ran on different data; it can still be compared below">
+                        Other data
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {runs.length > 1 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <GitCompare className="h-4 w-4 text-muted-foreground" />
+              <Label htmlFor="compare-base" className="text-sm">Compare</Label>
+              {runSelect(base.id, setBaseId, 'compare-base')}
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              {runSelect(other.id, setOtherId, 'compare-other')}
+            </div>
+
+            {!comparing ? (
+              <p className="text-sm text-muted-foreground">Choose two different runs to compare</p>
+            ) : (
+              <>
+                {base.datasetHash !== other.datasetHash && (
+                  <p className="text-sm text-moderate">
+                    The runs used different data; samples are matched by ID, repeated IDs in order of appearance
+                  </p>
+                )}
+                <div className="rounded-lg border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Parameter</TableHead>
+                        <TableHead>Run {base.version}</TableHead>
+                        <TableHead>Run {other.version}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {parameters.map(row => (
+                        <TableRow key={row.label} className={cn(row.changed && 'bg-accent/10')}>
+                          <TableCell className="font-medium whitespace-nowrap">{row.label}</TableCell>
+                          <TableCell className="text-sm">{row.base ?? '—'}</TableCell>
+                          <TableCell className={cn('text-sm', row.changed && 'font-medium')}>{row.other ?? '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="text-sm text-muted-foreground">
+                  {diff.changed.length} samples changed category · {diff.unchanged} unchanged
+                  {diff.unmatched > 0 && <> · {diff.unmatched} in only one run</>}
+                </div>
+                {diff.changed.length > 0 && (
+                  <div className="rounded-lg border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Sample</TableHead>
+                          <TableHead>Run {base.version}</TableHead>
+                          <TableHead>Run {other.version}</TableHead>
+                          <TableHead>HPI</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.changed.slice(0, MAX_LISTED).map(change => (
+                          <TableRow key={change.position}>
+                            <TableCell className="font-medium">{change.id}</TableCell>
+                            <TableCell>{categoryBadge(change.from)}</TableCell>
+                            <TableCell>{categoryBadge(change.to)}</TableCell>
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {formatHpi(change.hpiFrom)} → {formatHpi(change.hpiTo)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {diff.changed.length > MAX_LISTED && (
+                      <div className="p-4 text-center text-sm text-muted-foreground border-t">
+                        ... and {diff.changed.length - MAX_LISTED} more
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,95 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Filter, X } from "lucide-react";
+import { WaterSample } from "./Dashboard";
+import {
+  SampleAttribute,
+  SampleFilter,
+  attributeLabel,
+  attributeValues,
+  sampleAttributes,
+} from "@/lib/metadata";
+
+interface SampleFilterBarProps {
+  samples: WaterSample[];
+  filter: SampleFilter;
+  onFilterChange: (filter: SampleFilter) => void;
+  groupBy?: SampleAttribute;
+  onGroupByChange: (key?: SampleAttribute) => void;
+}
+
+const NONE = 'none';
+
+const SampleFilterBar = ({ samples, filter, onFilterChange, groupBy, onGroupByChange }: SampleFilterBarProps) => {
+  const attributes = sampleAttributes(samples);
+  const values = filter.key ? attributeValues(samples, filter.key) : [];
+
+  if (attributes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No station IDs or metadata columns were uploaded, so there is nothing to filter or group by
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 p-4 border rounded-lg">
+      <Filter className="h-4 w-4 text-muted-foreground" />
+      <div className="flex items-center gap-2">
+        <Label className="text-sm">Filter by</Label>
+        <Select
+          value={filter.key ?? NONE}
+          onValueChange={(value) => onFilterChange(value === NONE ? {} : { key: value as SampleAttribute })}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>All samples</SelectItem>
+            {attributes.map(key => (
+              <SelectItem key={key} value={key}>{attributeLabel(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {filter.key && (
+          <Select value={filter.value ?? ''} onValueChange={(value) => onFilterChange({ ...filter, value })}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue placeholder="Choose a value" />
+            </SelectTrigger>
+            <SelectContent>
+              {values.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Label className="text-sm">Group by</Label>
+        <Select
+          value={groupBy ?? NONE}
+          onValueChange={(value) => onGroupByChange(value === NONE ? undefined : value as SampleAttribute)}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No grouping</SelectItem>
+            {attributes.map(key => (
+              <SelectItem key={key} value={key}>{attributeLabel(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {(filter.key || groupBy) && (
+        <Button variant="ghost" size="sm" onClick={() => { onFilterChange({}); onGroupByChange(undefined); }}>
+          <X className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SampleFilterBar;
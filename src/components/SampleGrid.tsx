@@ -0,0 +1,308 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, CheckCircle, ChevronLeft, ChevronRight, Plus, Search, Trash2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { WaterSample } from "./Dashboard";
+import type { MetalSymbol } from "@/lib/indices";
+import {
+  GRID_FIELD_COLUMNS,
+  GridColumn,
+  GridFilter,
+  GridRow,
+  GridSort,
+  cellText,
+  editCell,
+  emptySample,
+  filterRows,
+  gridColumnLabel,
+  pageOf,
+  sortRows,
+} from "@/lib/grid";
+import { SampleStore, appendSamples, forEachSample, removeSample, replaceSample, sampleAt } from "@/lib/store";
+import type { ValidationIssue } from "@/lib/validation";
+
+interface SampleGridProps {
+  samples: SampleStore;
+  metals: MetalSymbol[]; // element columns, in display order
+  issues: ValidationIssue[]; // from validateSamples, rows numbered by position in `samples`
+  onChange: (samples: SampleStore) => void;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+const ALL_COLUMNS = 'all';
+
+interface EditingCell {
+  index: number;
+  column: GridColumn;
+  draft: string;
+}
+
+const SampleGrid = ({ samples, metals, issues, onChange }: SampleGridProps) => {
+  const [sort, setSort] = useState<GridSort | undefined>();
+  const [filter, setFilter] = useState<GridFilter>({ query: '', show: 'all' });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [editing, setEditing] = useState<EditingCell | undefined>();
+
+  const columns = useMemo<GridColumn[]>(() => [...GRID_FIELD_COLUMNS, ...metals], [metals]);
+  const filtered = useMemo(() => filterRows(samples, filter, columns, issues), [samples, filter, columns, issues]);
+  const visible = useMemo(() => (sort ? sortRows(samples, filtered, sort) : filtered), [samples, filtered, sort]);
+  const { items: pagePositions, page: currentPage, pageCount } = pageOf(visible, page, pageSize);
+  const pageRows: GridRow[] = pagePositions.map(index => ({ sample: sampleAt(samples, index), index }));
+
+  // Issues grouped by row, so each cell looks up only its own
+  const issuesByRow = useMemo(() => {
+    const byRow = new Map<number, ValidationIssue[]>();
+    issues.forEach(issue => {
+      const rowIssues = byRow.get(issue.row);
+      if (rowIssues) rowIssues.push(issue);
+      else byRow.set(issue.row, [issue]);
+    });
+    return byRow;
+  }, [issues]);
+
+  const issuesAt = (index: number, column?: GridColumn) => {
+    const rowIssues = issuesByRow.get(index + 1) ?? [];
+    return column === undefined ? rowIssues : rowIssues.filter(issue => issue.column === column);
+  };
+
+  const draftResult = editing ? editCell(sampleAt(samples, editing.index), editing.column, editing.draft) : undefined;
+  const draftError = draftResult?.ok === false ? draftResult.message : undefined;
+
+  const updateSample = (index: number, sample: WaterSample) => onChange(replaceSample(samples, index, sample));
+
+  const commitEdit = () => {
+    if (!editing || !draftResult) return;
+    if (draftResult.ok) {
+      updateSample(editing.index, draftResult.sample);
+      setEditing(undefined);
+    }
+  };
+
+  const toggleSort = (column: GridColumn) => {
+    if (sort?.column !== column) setSort({ column, direction: 'asc' });
+    else if (sort.direction === 'asc') setSort({ column, direction: 'desc' });
+    else setSort(undefined);
+  };
+
+  const updateFilter = (changes: Partial<GridFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  // The new row goes to the end of the unsorted, unfiltered list so it is in view
+  const addRow = () => {
+    const ids = new Set<string>();
+    forEachSample(samples, s => ids.add(s.id));
+    let n = samples.size + 1;
+    while (ids.has(`sample_${n}`)) n++;
+    onChange(appendSamples(samples, [emptySample(`sample_${n}`)]));
+    setSort(undefined);
+    setFilter({ query: '', show: 'all' });
+    setPage(Math.floor(samples.size / pageSize));
+  };
+
+  const deleteRow = (index: number) => {
+    setEditing(undefined);
+    onChange(removeSample(samples, index));
+  };
+
+  const renderCell = ({ sample, index }: GridRow, column: GridColumn) => {
+    const isEditing = editing?.index === index && editing.column === column;
+    const cellIssues = issuesAt(index, column);
+    const hasError = cellIssues.some(issue => issue.severity === 'error');
+    const original = sample.edits?.[column];
+
+    if (isEditing) {
+      return (
+        <TableCell key={column} className="p-1 min-w-28">
+          <Input
+            autoFocus
+            value={editing.draft}
+            onChange={(e) => setEditing({ ...editing, draft: e.target.value })}
+            onBlur={commitEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitEdit();
+              if (e.key === 'Escape') setEditing(undefined);
+            }}
+            className={cn('h-8', draftError && 'border-destructive focus-visible:ring-destructive')}
+          />
+          {draftError && <div className="text-xs text-destructive mt-1">{draftError}</div>}
+        </TableCell>
+      );
+    }
+
+    return (
+      <TableCell
+        key={column}
+        onClick={() => setEditing({ index, column, draft: cellText(sample, column) })}
+        title={[
+          ...cellIssues.map(issue => issue.message),
+          ...(original !== undefined ? [`Edited; was ${original || 'blank'}`] : []),
+        ].join('\n') || 'Click to edit'}
+        className={cn(
+          'cursor-text whitespace-nowrap',
+          original !== undefined && 'bg-accent/10 font-medium',
+          cellIssues.length > 0 && (hasError ? 'text-destructive' : 'text-moderate')
+        )}
+      >
+        {cellText(sample, column) || <span className="text-muted-foreground">—</span>}
+      </TableCell>
+    );
+  };
+
+  const renderStatus = ({ sample, index }: GridRow) => {
+    const rowIssues = issuesAt(index);
+    if (rowIssues.some(issue => issue.severity === 'error')) {
+      return (
+        <Badge variant="destructive" title={rowIssues.map(issue => issue.message).join('\n')}>
+          <XCircle className="h-3 w-3 mr-1" />
+          Invalid
+        </Badge>
+      );
+    }
+    if (rowIssues.length > 0) {
+      return (
+        <Badge variant="outline" className="text-moderate border-moderate" title={rowIssues.map(issue => issue.message).join('\n')}>
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Check
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant="outline" className="text-success border-success">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        {sample.addedManually ? 'Added' : sample.edits ? 'Edited' : 'Valid'}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filter.column ?? ALL_COLUMNS}
+          onValueChange={(value) => updateFilter({ column: value === ALL_COLUMNS ? undefined : value as GridColumn })}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COLUMNS}>All columns</SelectItem>
+            {columns.map(column => (
+              <SelectItem key={column} value={column}>{gridColumnLabel(column)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative">
+          <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={filter.query}
+            onChange={(e) => updateFilter({ query: e.target.value })}
+            placeholder="Filter rows"
+            className="h-8 w-48 pl-8"
+          />
+        </div>
+        <Select value={filter.show} onValueChange={(value) => updateFilter({ show: value as GridFilter['show'] })}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All rows</SelectItem>
+            <SelectItem value="issues">Rows with issues</SelectItem>
+            <SelectItem value="edited">Edited rows</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Row
+        </Button>
+      </div>
+
+      <div className="rounded-lg border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              {columns.map(column => (
+                <TableHead key={column}>
+                  <button className="flex items-center gap-1 whitespace-nowrap" onClick={() => toggleSort(column)}>
+                    {gridColumnLabel(column)}
+                    {sort?.column !== column ? (
+                      <ArrowUpDown className="h-3 w-3 opacity-50" />
+                    ) : sort.direction === 'asc' ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead>Status</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageRows.map(row => (
+              <TableRow key={row.index}>
+                <TableCell className="text-xs text-muted-foreground">{row.index + 1}</TableCell>
+                {columns.map(column => renderCell(row, column))}
+                <TableCell>{renderStatus(row)}</TableCell>
+                <TableCell className="p-1">
+                  <Button variant="ghost" size="sm" onClick={() => deleteRow(row.index)} title="Delete row">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {pageRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={columns.length + 3} className="text-center text-sm text-muted-foreground py-6">
+                  No rows match the filter
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          {visible.length === 0 ? 0 : currentPage * pageSize + 1}–{Math.min((currentPage + 1) * pageSize, visible.length)} of {visible.length} rows
+          {visible.length < samples.size && <> (filtered from {samples.size})</>}
+        </span>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => {
+              setPageSize(parseInt(value));
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SampleGrid;
@@ -0,0 +1,101 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { Sheet } from "lucide-react";
+import { SourceFile, detectHeaderRow } from "@/lib/import";
+
+interface SheetSettingsProps {
+  source: SourceFile;
+  sheetIndex: number;
+  headerRow: number; // 0-based row of the sheet holding the column headers
+  onChange: (sheetIndex: number, headerRow: number) => void;
+}
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLUMNS = 8;
+
+const SheetSettings = ({ source, sheetIndex, headerRow, onChange }: SheetSettingsProps) => {
+  const { grid } = source.sheets[sheetIndex];
+
+  const handleHeaderRowChange = (value: string) => {
+    const row = parseInt(value);
+    if (!isNaN(row) && row >= 1 && row <= grid.length) onChange(sheetIndex, row - 1);
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <Sheet className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">{source.name}</Label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {source.kind === 'workbook' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="sheet" className="text-sm">Sheet</Label>
+            <Select
+              value={String(sheetIndex)}
+              onValueChange={(value) => {
+                const index = parseInt(value);
+                onChange(index, detectHeaderRow(source.sheets[index].grid));
+              }}
+            >
+              <SelectTrigger id="sheet" className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {source.sheets.map((sheet, index) => (
+                  <SelectItem key={sheet.name} value={String(index)}>
+                    {sheet.name} ({sheet.grid.length} rows)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="header-row" className="text-sm">Header row</Label>
+          <Input
+            id="header-row"
+            type="number"
+            min={1}
+            max={grid.length}
+            value={headerRow + 1}
+            onChange={(e) => handleHeaderRowChange(e.target.value)}
+            className="h-8 w-20"
+          />
+        </div>
+        <span className="text-sm text-muted-foreground">
+          Rows above the header and rows with a single filled cell (titles, notes) are skipped
+        </span>
+        {source.stream && (
+          <span className="text-sm text-muted-foreground">
+            Large file: the first {grid.length} rows are shown here; all{' '}
+            {(source.stream.size / (1024 * 1024)).toFixed(1)} MB are read when the mapping is applied
+          </span>
+        )}
+      </div>
+
+      <div className="rounded-lg border overflow-x-auto">
+        <Table>
+          <TableBody>
+            {grid.slice(0, Math.max(PREVIEW_ROWS, headerRow + 3)).map((row, index) => (
+              <TableRow
+                key={index}
+                className={index === headerRow ? 'bg-primary/10 font-medium' : index < headerRow ? 'text-muted-foreground/60' : ''}
+              >
+                <TableCell className="w-10 text-xs text-muted-foreground">{index + 1}</TableCell>
+                {row.slice(0, PREVIEW_COLUMNS).map((cell, col) => (
+                  <TableCell key={col} className="text-xs py-1 max-w-32 truncate">{cell}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SheetSettings;
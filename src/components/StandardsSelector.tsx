@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen, Copy, Trash2 } from "lucide-react";
+import { METAL_WEIGHTS, type MetalSymbol } from "@/lib/indices";
+import {
+  STANDARD_CATALOGUE,
+  StandardLimit,
+  StandardSet,
+  cloneStandardSet,
+  loadCustomProfiles,
+  saveCustomProfiles,
+} from "@/lib/standards";
+
+interface StandardsSelectorProps {
+  selected: StandardSet;
+  onSelect: (set: StandardSet) => void;
+}
+
+const StandardsSelector = ({ selected, onSelect }: StandardsSelectorProps) => {
+  const [customProfiles, setCustomProfiles] = useState<StandardSet[]>(loadCustomProfiles);
+
+  const updateProfiles = (profiles: StandardSet[]) => {
+    setCustomProfiles(profiles);
+    saveCustomProfiles(profiles);
+  };
+
+  const handleSelect = (id: string) => {
+    const set = [...STANDARD_CATALOGUE, ...customProfiles].find(s => s.id === id);
+    if (set) onSelect(set);
+  };
+
+  const handleClone = () => {
+    const profile = cloneStandardSet(selected, `${selected.name} (custom)`);
+    updateProfiles([...customProfiles, profile]);
+    onSelect(profile);
+  };
+
+  const handleDelete = () => {
+    updateProfiles(customProfiles.filter(p => p.id !== selected.id));
+    onSelect(STANDARD_CATALOGUE.find(s => s.id === selected.basedOn) ?? STANDARD_CATALOGUE[0]);
+  };
+
+  const updateSelected = (profile: StandardSet) => {
+    updateProfiles(customProfiles.map(p => (p.id === profile.id ? profile : p)));
+    onSelect(profile);
+  };
+
+  // Clearing a permissible limit removes the metal from the profile, so indices skip it
+  const handleLimitChange = (metal: MetalSymbol, key: keyof StandardLimit, value: string) => {
+    const parsed = parseFloat(value);
+    const limits = { ...selected.limits };
+
+    if (key === 'permissible' && value === '') {
+      delete limits[metal];
+    } else if (key === 'permissible') {
+      if (isNaN(parsed) || parsed < 0) return;
+      limits[metal] = { ...limits[metal], permissible: parsed };
+    } else {
+      if (!limits[metal]) return;
+      limits[metal] = { ...limits[metal]!, acceptable: isNaN(parsed) ? undefined : parsed };
+    }
+
+    updateSelected({ ...selected, limits });
+  };
+
+  // Custom profiles list every supported metal so limits can be added as well as edited
+  const metals = selected.custom
+    ? (Object.keys(METAL_WEIGHTS) as MetalSymbol[])
+    : (Object.keys(selected.limits) as MetalSymbol[]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <BookOpen className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">Regulatory Standard</Label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selected.id} onValueChange={handleSelect}>
+          <SelectTrigger className="w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Catalogue</SelectLabel>
+              {STANDARD_CATALOGUE.map(set => (
+                <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+              ))}
+            </SelectGroup>
+            {customProfiles.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Custom profiles</SelectLabel>
+                {customProfiles.map(set => (
+                  <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleClone}>
+          <Copy className="h-4 w-4 mr-2" />
+          Clone as Custom
+        </Button>
+        {selected.custom && (
+          <Button variant="outline" size="sm" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Profile
+          </Button>
+        )}
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        <Badge variant="outline" className="mr-2">{selected.version}</Badge>
+        {selected.source}
+      </div>
+
+      {selected.custom && (
+        <div className="flex items-center gap-4">
+          <Label htmlFor="profile-name" className="text-sm whitespace-nowrap">Profile name</Label>
+          <Input
+            id="profile-name"
+            value={selected.name}
+            onChange={(e) => updateSelected({ ...selected, name: e.target.value })}
+            className="max-w-sm"
+          />
+        </div>
+      )}
+
+      <div className="rounded-lg border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metal</TableHead>
+              <TableHead>Acceptable (mg/L)</TableHead>
+              <TableHead>Permissible (mg/L)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {metals.map(metal => {
+              const limit: Partial<StandardLimit> = selected.limits[metal] ?? {};
+              return (
+                <TableRow key={metal}>
+                  <TableCell className="font-medium">{metal}</TableCell>
+                  {(['acceptable', 'permissible'] as const).map(key => (
+                    <TableCell key={key}>
+                      {selected.custom ? (
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={limit[key] ?? ''}
+                          placeholder="—"
+                          onChange={(e) => handleLimitChange(metal, key, e.target.value)}
+                          className="h-8 w-28"
+                        />
+                      ) : (
+                        limit[key] ?? '—'
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default StandardsSelector;
@@ -0,0 +1,54 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skull } from "lucide-react";
+import type { MetalSymbol, MetalValues } from "@/lib/indices";
+
+interface ToxicResponseSettingsProps {
+  metals: MetalSymbol[]; // elements measured in the dataset
+  factors: MetalValues;
+  onChange: (factors: MetalValues) => void;
+}
+
+const ToxicResponseSettings = ({ metals, factors, onChange }: ToxicResponseSettingsProps) => {
+  // A cleared factor excludes the metal from RI
+  const handleChange = (metal: MetalSymbol, value: string) => {
+    const parsed = parseFloat(value);
+    if (value !== '' && (isNaN(parsed) || parsed < 0)) return;
+
+    const updated = { ...factors };
+    if (value === '') {
+      delete updated[metal];
+    } else {
+      updated[metal] = parsed;
+    }
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Skull className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-base font-medium">Toxic Response Factors (Tr)</Label>
+      </div>
+      <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+        {metals.map((metal) => (
+          <div key={metal} className="flex items-center gap-2">
+            <Label htmlFor={`tr-${metal}`} className="w-6 text-sm">{metal}</Label>
+            <Input
+              id={`tr-${metal}`}
+              type="number"
+              min={0}
+              step="any"
+              value={factors[metal] ?? ''}
+              placeholder="—"
+              onChange={(e) => handleChange(metal, e.target.value)}
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ToxicResponseSettings;
@@ -0,0 +1,105 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dices } from "lucide-react";
+import { WaterSample } from "./Dashboard";
+import { CANCER_RISK_THRESHOLD, HAZARD_INDEX_THRESHOLD } from "@/lib/health-risk";
+import { HPI_CRITICAL_VALUE, PercentileSummary } from "@/lib/uncertainty";
+
+interface UncertaintyResultsProps {
+  samples: WaterSample[];
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const PercentileCell = ({ summary, format }: { summary: PercentileSummary; format: (value: number) => string }) => (
+  <div className="text-sm">
+    <div className="font-medium">{format(summary.p50)}</div>
+    <div className="text-xs text-muted-foreground">
+      {format(summary.p5)} – {format(summary.p95)}
+    </div>
+  </div>
+);
+
+const ExceedanceBadge = ({ probability }: { probability: number }) => (
+  <Badge variant={probability > 0.05 ? 'destructive' : 'outline'} className="text-xs">
+    {formatPercent(probability)}
+  </Badge>
+);
+
+const UncertaintyResults = ({ samples }: UncertaintyResultsProps) => {
+  const simulatedSamples = samples.filter(s => s.uncertainty);
+
+  if (simulatedSamples.length === 0) {
+    return null;
+  }
+
+  const { iterations, seed } = simulatedSamples[0].uncertainty!;
+  const includesHealthRisk = simulatedSamples.some(s => s.uncertainty!.hazardIndex);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dices className="h-5 w-5 text-primary" />
+          Uncertainty Analysis
+        </CardTitle>
+        <CardDescription>
+          Monte Carlo P50 with P5–P95 range and probability of exceeding HPI {HPI_CRITICAL_VALUE}
+          {includesHealthRisk && <>, HI {HAZARD_INDEX_THRESHOLD} and CR {CANCER_RISK_THRESHOLD.toExponential(0)}</>}
+          {' '}({iterations} iterations, seed {seed})
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sample ID</TableHead>
+                <TableHead>HPI</TableHead>
+                <TableHead>P(HPI &gt; {HPI_CRITICAL_VALUE})</TableHead>
+                {includesHealthRisk && (
+                  <>
+                    <TableHead>HI (Adults)</TableHead>
+                    <TableHead>HI (Children)</TableHead>
+                    <TableHead>P(HI &gt; {HAZARD_INDEX_THRESHOLD}) Children</TableHead>
+                    <TableHead>CR (Adults)</TableHead>
+                    <TableHead>P(CR &gt; {CANCER_RISK_THRESHOLD.toExponential(0)}) Adults</TableHead>
+                  </>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {simulatedSamples.slice(0, 10).map((sample) => {
+                const { hpi, hazardIndex, cancerRisk } = sample.uncertainty!;
+                return (
+                  <TableRow key={sample.id}>
+                    <TableCell className="font-medium">{sample.id}</TableCell>
+                    <TableCell><PercentileCell summary={hpi} format={(v) => v.toFixed(1)} /></TableCell>
+                    <TableCell><ExceedanceBadge probability={hpi.exceedanceProbability} /></TableCell>
+                    {includesHealthRisk && hazardIndex && cancerRisk && (
+                      <>
+                        <TableCell><PercentileCell summary={hazardIndex.adult} format={(v) => v.toFixed(2)} /></TableCell>
+                        <TableCell><PercentileCell summary={hazardIndex.child} format={(v) => v.toFixed(2)} /></TableCell>
+                        <TableCell><ExceedanceBadge probability={hazardIndex.child.exceedanceProbability} /></TableCell>
+                        <TableCell><PercentileCell summary={cancerRisk.adult} format={(v) => v.toExponential(2)} /></TableCell>
+                        <TableCell><ExceedanceBadge probability={cancerRisk.adult.exceedanceProbability} /></TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {simulatedSamples.length > 10 && (
+            <div className="p-4 text-center text-sm text-muted-foreground border-t">
+              Showing 10 of {simulatedSamples.length} samples
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UncertaintyResults;
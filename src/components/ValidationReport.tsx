@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ClipboardList, Download, Import, XCircle } from "lucide-react";
+import { downloadCsv, validationTable } from "@/lib/export";
+import { ValidationIssue, ValidationSeverity, VALIDATION_RULES, countIssues } from "@/lib/validation";
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  validRows: number;
+  quarantinedRows: number[];
+  onDownloadQuarantined: () => void;
+  onImportValid?: () => void; // offered while errors are still unresolved
+}
+
+const MAX_LISTED = 50;
+
+const SEVERITY_BADGES: Record<ValidationSeverity, JSX.Element> = {
+  error: (
+    <Badge variant="destructive">
+      <XCircle className="h-3 w-3 mr-1" />
+      Error
+    </Badge>
+  ),
+  warning: (
+    <Badge variant="outline" className="text-moderate border-moderate">
+      <AlertTriangle className="h-3 w-3 mr-1" />
+      Warning
+    </Badge>
+  ),
+};
+
+const ValidationReport = ({
+  issues,
+  validRows,
+  quarantinedRows,
+  onDownloadQuarantined,
+  onImportValid,
+}: ValidationReportProps) => {
+  const [severity, setSeverity] = useState<ValidationSeverity | 'all'>('all');
+  const errorCount = countIssues(issues, 'error');
+  const warningCount = countIssues(issues, 'warning');
+  const listed = issues.filter(issue => severity === 'all' || issue.severity === severity);
+
+  const handleDownload = () => {
+    const { columns, rows } = validationTable(issues);
+    downloadCsv('hmpi-validation-report.csv', columns, rows);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ClipboardList className="h-5 w-5 text-primary" />
+            Validation Report
+          </CardTitle>
+          <CardDescription>
+            {validRows} rows valid · {quarantinedRows.length} rows quarantined · {errorCount} errors · {warningCount} warnings
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Report
+          </Button>
+          {quarantinedRows.length > 0 && (
+            <Button variant="outline" size="sm" onClick={onDownloadQuarantined}>
+              <Download className="h-4 w-4 mr-2" />
+              Quarantined Rows
+            </Button>
+          )}
+          {onImportValid && validRows > 0 && (
+            <Button size="sm" onClick={onImportValid}>
+              <Import className="h-4 w-4 mr-2" />
+              Import {validRows} Valid Rows
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorCount > 0 && warningCount > 0 && (
+          <Select value={severity} onValueChange={(value) => setSeverity(value as ValidationSeverity | 'all')}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All issues</SelectItem>
+              <SelectItem value="error">Errors only</SelectItem>
+              <SelectItem value="warning">Warnings only</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Message</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {listed.slice(0, MAX_LISTED).map((issue, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-medium">{issue.row}</TableCell>
+                  <TableCell>{issue.column ?? '—'}</TableCell>
+                  <TableCell className="font-mono text-xs max-w-32 truncate">{issue.value || '—'}</TableCell>
+                  <TableCell className="text-sm">{VALIDATION_RULES[issue.rule].label}</TableCell>
+                  <TableCell>{SEVERITY_BADGES[issue.severity]}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {listed.length > MAX_LISTED && (
+            <div className="p-4 text-center text-sm text-muted-foreground border-t">
+              ... and {listed.length - MAX_LISTED} more; download the report for the full list
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationReport;
@@ -0,0 +1,89 @@
+import type { MetalSymbol } from "@/lib/indices";
+import { CANONICAL_UNIT } from "@/lib/units";
+import type { BackgroundReference, BackgroundSet } from "./types";
+
+// Baseline of the aquifer itself, e.g. from upgradient or pre-development wells. No published
+// values apply everywhere, so it starts empty and is filled in per study.
+export const GROUNDWATER_BACKGROUND: BackgroundSet = {
+  id: 'groundwater',
+  name: 'Local groundwater background',
+  source: 'User-supplied',
+  unit: CANONICAL_UNIT,
+  values: {},
+};
+
+// Rudnick & Gao (2003), Treatise on Geochemistry 3.01; Fe, Mn and Al converted from oxide wt%
+export const UPPER_CONTINENTAL_CRUST: BackgroundSet = {
+  id: 'ucc',
+  name: 'Upper continental crust',
+  source: 'Rudnick & Gao (2003)',
+  unit: 'mg/kg',
+  values: {
+    As: 4.8,
+    Cd: 0.09,
+    Cr: 92,
+    Cu: 28,
+    Fe: 39200,
+    Mn: 774,
+    Ni: 47,
+    Pb: 17,
+    Zn: 67,
+    Hg: 0.05,
+    Co: 17.3,
+    Se: 0.09,
+    Al: 81500,
+    Ba: 624,
+    Sb: 0.4,
+    Mo: 1.1,
+    U: 2.7,
+    B: 17,
+  },
+};
+
+export const AVERAGE_SHALE: BackgroundSet = {
+  id: 'average-shale',
+  name: 'Average shale',
+  source: 'Turekian & Wedepohl (1961)',
+  unit: 'mg/kg',
+  values: {
+    As: 13,
+    Cd: 0.3,
+    Cr: 90,
+    Cu: 45,
+    Fe: 47200,
+    Mn: 850,
+    Ni: 68,
+    Pb: 20,
+    Zn: 95,
+    Hg: 0.4,
+    Co: 19,
+    Se: 0.6,
+    Al: 80000,
+    Ba: 580,
+    Sb: 1.5,
+    Mo: 2.6,
+    U: 3.7,
+    B: 100,
+  },
+};
+
+export const BACKGROUND_CATALOGUE: BackgroundSet[] = [GROUNDWATER_BACKGROUND, UPPER_CONTINENTAL_CRUST, AVERAGE_SHALE];
+
+export const DEFAULT_BACKGROUND_SET = GROUNDWATER_BACKGROUND;
+
+export function backgroundReference({ id, name, unit, custom }: BackgroundSet): BackgroundReference {
+  return { id, name, unit, custom };
+}
+
+// Why Igeo, EF and RI cannot use a background with the dataset, if anything. They divide sample
+// concentrations by it, so it has to be in the sample unit: crustal values in mg/kg only suit
+// sediment or soil, not water.
+export function backgroundProblem({ name, unit, values }: BackgroundSet, metals: MetalSymbol[]): string | undefined {
+  if (unit !== CANONICAL_UNIT) {
+    return `${name} values are in ${unit}, for sediment or soil; water samples need a groundwater background in ${CANONICAL_UNIT}`;
+  }
+  if (!metals.some(metal => values[metal] !== undefined)) {
+    return `No background is set for the measured elements; enter a groundwater background in ${CANONICAL_UNIT}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,17 @@
+import type { MetalValues } from "@/lib/indices";
+
+export interface BackgroundSet {
+  id: string;
+  name: string;
+  source: string;
+  values: MetalValues; // background concentration per metal, in `unit`
+  unit: string; // crustal sets are in mg/kg, for sediment and soil digests
+  custom?: boolean;
+}
+
+export interface BackgroundReference {
+  id: string;
+  name: string;
+  unit: string;
+  custom?: boolean;
+}
@@ -0,0 +1,27 @@
+import type { ParsedConcentration } from "./types";
+
+const NON_DETECT_PATTERN = /^(?:bdl|nd|n\.d\.?|not detected|below detection limit|<\s*dl|<\s*lod|<\s*mdl)$/i;
+const LESS_THAN_PATTERN = /^<\s*([0-9]*\.?[0-9]+(?:e[-+]?\d+)?)$/i;
+const NON_DETECT_WITH_LIMIT_PATTERN = /^(?:bdl|nd|n\.d\.?)\s*[(<[]\s*<?\s*([0-9]*\.?[0-9]+(?:e[-+]?\d+)?)\s*[)\]]?$/i;
+
+// Parses a lab-reported concentration: plain numbers, "<DL" values, "BDL"/"ND" markers
+// (optionally with the limit, e.g. "BDL (0.001)"). Blanks are missing values, not non-detects.
+export function parseConcentration(input: unknown): ParsedConcentration {
+  const raw = input === undefined || input === null ? '' : String(input).trim();
+
+  if (raw === '') return { kind: 'missing' };
+  if (NON_DETECT_PATTERN.test(raw)) {
+    return { kind: 'censored', censored: { raw } };
+  }
+
+  const limitMatch = raw.match(LESS_THAN_PATTERN) ?? raw.match(NON_DETECT_WITH_LIMIT_PATTERN);
+  if (limitMatch) {
+    return { kind: 'censored', censored: { raw, detectionLimit: parseFloat(limitMatch[1]) } };
+  }
+
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    return { kind: 'invalid', raw };
+  }
+  return { kind: 'value', value };
+}
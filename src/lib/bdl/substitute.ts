@@ -0,0 +1,53 @@
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import type { BdlPolicy, CensoredValue, CensoredValues } from "./types";
+
+export const BDL_POLICIES: Record<BdlPolicy, { name: string; description: string }> = {
+  zero: { name: 'Zero', description: 'Non-detects are set to 0' },
+  'half-dl': { name: 'DL/2', description: 'Non-detects are set to half the detection limit' },
+  'dl-sqrt2': { name: 'DL/√2', description: 'Non-detects are set to the detection limit divided by √2' },
+  dl: { name: 'DL', description: 'Non-detects are set to the detection limit' },
+  exclude: { name: 'Exclude', description: 'Non-detect metals are left out of every index and statistic' },
+};
+
+export const DEFAULT_BDL_POLICY: BdlPolicy = 'half-dl';
+
+// Substituted value, or undefined when the policy excludes non-detects. Non-detects without a
+// reported limit have nothing to substitute from, so only the zero policy keeps them.
+export function substituteCensored({ detectionLimit }: CensoredValue, policy: BdlPolicy): number | undefined {
+  if (policy === 'zero') return 0;
+  if (detectionLimit === undefined) return undefined;
+  switch (policy) {
+    case 'half-dl':
+      return detectionLimit / 2;
+    case 'dl-sqrt2':
+      return detectionLimit / Math.SQRT2;
+    case 'dl':
+      return detectionLimit;
+    case 'exclude':
+      return undefined;
+  }
+}
+
+// Concentrations as used by a calculation run under the given policy
+export function resolveConcentrations(
+  metals: MetalConcentrations,
+  censored: CensoredValues | undefined,
+  policy: BdlPolicy,
+): MetalConcentrations {
+  if (!censored) return metals;
+
+  const resolved: MetalConcentrations = { ...metals };
+  (Object.keys(censored) as MetalSymbol[]).forEach((metal) => {
+    const value = substituteCensored(censored[metal]!, policy);
+    if (value === undefined) {
+      delete resolved[metal];
+    } else {
+      resolved[metal] = value;
+    }
+  });
+  return resolved;
+}
+
+export function countCensored(censored: CensoredValues | undefined): number {
+  return censored ? Object.keys(censored).length : 0;
+}
@@ -0,0 +1,17 @@
+import type { MetalSymbol } from "@/lib/indices";
+
+// How censored (below detection limit) values enter the calculations
+export type BdlPolicy = "zero" | "half-dl" | "dl-sqrt2" | "dl" | "exclude";
+
+export interface CensoredValue {
+  raw: string; // value as reported by the lab, e.g. "<0.001" or "ND"
+  detectionLimit?: number; // unknown for bare "BDL"/"ND" entries
+}
+
+export type CensoredValues = Partial<Record<MetalSymbol, CensoredValue>>;
+
+export type ParsedConcentration =
+  | { kind: "value"; value: number }
+  | { kind: "censored"; censored: CensoredValue }
+  | { kind: "missing" }
+  | { kind: "invalid"; raw: string };
@@ -0,0 +1,115 @@
+import type { WaterSample } from "@/lib/samples";
+import { resolveConcentrations } from "@/lib/bdl";
+import { assessHealthRisk } from "@/lib/health-risk";
+import {
+  INDEX_REGISTRY,
+  IndexId,
+  MetalSymbol,
+  calculateIndices,
+  classifyIndices,
+  overallCategory,
+} from "@/lib/indices";
+import { CANONICAL_UNIT } from "@/lib/units";
+import type { CalculationOutcome, CalculationSettings, SampleFailure } from "./types";
+
+// Reference values each index divides by
+const INDEX_BASIS: Record<IndexId, 'standards' | 'background' | undefined> = {
+  hpi: 'standards',
+  pli: 'standards',
+  cf: 'standards',
+  hei: 'standards',
+  cd: 'standards',
+  nemerow: 'standards',
+  mi: 'standards',
+  igeo: 'background',
+  ef: 'background',
+  ri: 'background',
+};
+
+// Describes why a sample cannot be computed, if anything: a concentration that is not a
+// non-negative number, or a measured element whose standard or background is zero
+function inputProblem(sample: WaterSample, { indices, options }: CalculationSettings): string | undefined {
+  const metals = Object.keys(sample.metals) as MetalSymbol[];
+  const bad = metals.find(metal => !(sample.metals[metal] >= 0));
+  if (bad) return `${bad} concentration is ${sample.metals[bad]}`;
+
+  for (const id of indices) {
+    const basis = INDEX_BASIS[id];
+    const values = basis && options[basis];
+    const zero = values && metals.find(metal => values[metal] !== undefined && !(values[metal] > 0));
+    if (zero) {
+      return `${INDEX_REGISTRY[id].name} needs a positive ${basis === 'standards' ? 'standard' : 'background'} for ${zero}, not ${values[zero]}`;
+    }
+  }
+  return undefined;
+}
+
+// Results of a previous run, dropped before recalculating
+export const withoutResults = ({ hmpiResults: _hmpi, healthRisk: _risk, uncertainty: _uncertainty, calculationError: _error, ...sample }: WaterSample): WaterSample => sample;
+
+// Computes the selected indices, their classes and the overall category of one sample.
+// Throws with a readable message when the inputs or any result are not usable numbers.
+export function calculateSample(sample: WaterSample, settings: CalculationSettings): WaterSample {
+  const problem = inputProblem(sample, settings);
+  if (problem) throw new Error(problem);
+
+  const { indices, options, schemes, categoryRule, bdlPolicy, standard, background, healthRiskParameters } = settings;
+  const metals = resolveConcentrations(sample.metals, sample.censored, bdlPolicy);
+  const details = calculateIndices(metals, indices, options);
+  const invalid = indices.find(id => details[id] && !isFinite(details[id].value));
+  if (invalid) throw new Error(`${INDEX_REGISTRY[invalid].name} came out as ${details[invalid].value}`);
+
+  const classes = classifyIndices(details, schemes);
+  return {
+    ...withoutResults(sample),
+    hmpiResults: {
+      hpi: details.hpi?.value,
+      hpiMethod: details.hpi?.method,
+      pli: details.pli?.value,
+      cf: details.cf?.value,
+      hei: details.hei?.value,
+      cd: details.cd?.value,
+      nemerow: details.nemerow?.value,
+      mi: details.mi?.value,
+      igeo: details.igeo?.value,
+      ef: details.ef?.value,
+      ri: details.ri?.value,
+      qualityCategory: overallCategory(classes, categoryRule),
+      categoryRule,
+      bdlPolicy,
+      classes,
+      standard,
+      background,
+      details,
+    },
+    healthRisk: healthRiskParameters ? assessHealthRisk(metals, healthRiskParameters) : undefined,
+  };
+}
+
+// Runs every sample; a sample that fails keeps its data without results and is reported,
+// the rest of the run carries on
+export function calculateSamples(
+  samples: WaterSample[],
+  settings: CalculationSettings,
+  onProgress?: (completed: number) => void
+): CalculationOutcome {
+  // Background-based indices divide by the background, so it must be in the sample unit
+  const { background } = settings;
+  if (background && background.unit !== CANONICAL_UNIT) {
+    throw new Error(`${background.name} is in ${background.unit}; Igeo, EF and RI need a background in ${CANONICAL_UNIT}`);
+  }
+
+  const failures: SampleFailure[] = [];
+  const calculated = samples.map((sample, index) => {
+    try {
+      return calculateSample(sample, settings);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push({ id: sample.id, message });
+      return { ...withoutResults(sample), calculationError: message };
+    } finally {
+      onProgress?.(index + 1);
+    }
+  });
+  return { samples: calculated, failures };
+}
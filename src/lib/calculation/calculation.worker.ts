@@ -0,0 +1,37 @@
+import { calculateSamples } from "./calculate";
+import { DatasetHasher, createDatasetHasher } from "./hash";
+import type { CalculationMessage, CalculationResponse, CalculationSettings } from "./types";
+
+// Progress is posted about 200 times a run, however many samples there are
+const PROGRESS_UPDATES = 200;
+
+const post = (message: CalculationResponse) => self.postMessage(message);
+
+let settings: CalculationSettings;
+let hasher: DatasetHasher;
+let size = 0;
+let step = 1;
+let completed = 0;
+
+self.onmessage = (event: MessageEvent<CalculationMessage>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'start') {
+      ({ settings, size } = message);
+      hasher = createDatasetHasher();
+      step = Math.max(1, Math.floor(size / PROGRESS_UPDATES));
+      completed = 0;
+    } else {
+      hasher.add(message.samples);
+      const offset = completed;
+      const outcome = calculateSamples(message.samples, settings, (done) => {
+        completed = offset + done;
+        if (completed % step === 0 || completed === size) post({ type: 'progress', completed });
+      });
+      post({ type: 'chunk', samples: outcome.samples, failures: outcome.failures });
+    }
+    if (completed === size) post({ type: 'result', datasetHash: hasher.digest() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,41 @@
+import type { WaterSample } from "@/lib/samples";
+import { createSha256 } from "./sha256";
+
+export interface DatasetHasher {
+  add: (samples: WaterSample[]) => void; // the next samples, in dataset order
+  digest: () => string;
+}
+
+const sorted = <T>(values: Partial<Record<string, T>> | undefined) =>
+  values ? Object.keys(values).sort().map(key => [key, values[key]]) : null;
+
+// SHA-256 of the measured inputs in sample order: ID, position, date, concentrations and
+// non-detects, with elements in a fixed order. Results, metadata and batch tags do not count,
+// so two runs over the same measurements share a hash. Samples may be added in parts; the
+// hash is the same as for the whole list at once.
+export function createDatasetHasher(): DatasetHasher {
+  const sha = createSha256();
+  const encoder = new TextEncoder();
+  let first = true;
+
+  return {
+    add: (samples) => {
+      const text = samples.map(({ id, latitude, longitude, sampleDate, metals, censored }) =>
+        JSON.stringify([id, latitude, longitude, sampleDate, sorted(metals), sorted(censored)])
+      ).join(',');
+      if (!text) return;
+      sha.update(encoder.encode((first ? '[' : ',') + text));
+      first = false;
+    },
+    digest: () => {
+      sha.update(encoder.encode(first ? '[]' : ']'));
+      return sha.hex();
+    },
+  };
+}
+
+export function datasetHash(samples: WaterSample[]): string {
+  const hasher = createDatasetHasher();
+  hasher.add(samples);
+  return hasher.digest();
+}
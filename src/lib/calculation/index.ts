@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./calculate";
+export * from "./hash";
+export * from "./run";
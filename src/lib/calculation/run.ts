@@ -0,0 +1,54 @@
+import type { WaterSample } from "@/lib/samples";
+import type { CalculationMessage, CalculationRequest, CalculationResponse, CalculationResult, SampleFailure } from "./types";
+
+export interface CalculationRun {
+  promise: Promise<CalculationResult>;
+  cancel: () => void;
+}
+
+// Runs the calculations in a dedicated worker so the UI thread stays responsive. Chunks of the
+// store go over one at a time and come back as the chunks of the result store.
+export function runCalculation({ samples, settings }: CalculationRequest, onProgress?: (completed: number) => void): CalculationRun {
+  const worker = new Worker(new URL("./calculation.worker.ts", import.meta.url), { type: "module" });
+  const post = (message: CalculationMessage) => worker.postMessage(message);
+  let rejectRun: (reason: Error) => void = () => {};
+
+  const promise = new Promise<CalculationResult>((resolve, reject) => {
+    rejectRun = reject;
+    const chunks: WaterSample[][] = [];
+    const failures: SampleFailure[] = [];
+
+    worker.onmessage = (event: MessageEvent<CalculationResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.completed);
+      } else if (message.type === 'chunk') {
+        chunks.push(message.samples);
+        failures.push(...message.failures);
+        if (chunks.length < samples.chunks.length) post({ type: 'chunk', samples: samples.chunks[chunks.length] });
+      } else if (message.type === 'result') {
+        worker.terminate();
+        resolve({ samples: { chunks, size: samples.size }, failures, datasetHash: message.datasetHash });
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+
+    post({ type: 'start', settings, size: samples.size });
+    if (samples.chunks.length > 0) post({ type: 'chunk', samples: samples.chunks[0] });
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new Error("Calculation cancelled"));
+    },
+  };
+}
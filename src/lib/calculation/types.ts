@@ -0,0 +1,54 @@
+import type { WaterSample } from "@/lib/samples";
+import type { BackgroundReference } from "@/lib/background";
+import type { BdlPolicy } from "@/lib/bdl";
+import type { HealthRiskParameters } from "@/lib/health-risk";
+import type { CalculationOptions, ClassificationSchemes, IndexId, OverallCategoryRule } from "@/lib/indices";
+import type { StandardReference } from "@/lib/standards";
+import type { SampleStore } from "@/lib/store";
+
+// Everything a run needs besides the samples; plain data so it can be posted to a worker
+export interface CalculationSettings {
+  indices: IndexId[];
+  options: CalculationOptions; // standards and background already resolved to values
+  schemes: ClassificationSchemes;
+  categoryRule: OverallCategoryRule;
+  bdlPolicy: BdlPolicy;
+  standard: StandardReference;
+  background?: BackgroundReference; // set when Igeo, EF or RI is selected
+  healthRiskParameters?: HealthRiskParameters; // omitted when the health risk stage is disabled
+}
+
+// A sample the run could not compute, with the reason
+export interface SampleFailure {
+  id: string;
+  message: string;
+}
+
+export interface CalculationOutcome {
+  samples: WaterSample[]; // every input sample, in order; failed ones carry `calculationError`
+  failures: SampleFailure[];
+}
+
+// A worker run's outcome, with a hash identifying its input measurements
+export interface CalculationResult {
+  samples: SampleStore; // every input sample, in order; failed ones carry `calculationError`
+  failures: SampleFailure[];
+  datasetHash: string;
+}
+
+export interface CalculationRequest {
+  samples: SampleStore;
+  settings: CalculationSettings;
+}
+
+// The store is handed to the worker one chunk at a time, each sent once the previous one has
+// come back calculated, so neither side holds a second copy of the whole dataset
+export type CalculationMessage =
+  | { type: "start"; settings: CalculationSettings; size: number }
+  | { type: "chunk"; samples: WaterSample[] };
+
+export type CalculationResponse =
+  | { type: "progress"; completed: number }
+  | { type: "chunk"; samples: WaterSample[]; failures: SampleFailure[] }
+  | { type: "result"; datasetHash: string }
+  | { type: "error"; message: string };
@@ -0,0 +1,49 @@
+import type { ElementDefinition } from "./types";
+
+// Analytes recognised in uploads, in display order. Adding an entry here makes the
+// element available to every index; reference values come from the standard sets.
+// Toxic elements have no beneficial level, so their ideal value is zero; Cu uses the
+// BIS IS 10500 desirable limit.
+export const ELEMENT_CATALOGUE = [
+  { symbol: 'As', name: 'Arsenic', weight: 1.0, idealValue: 0 },
+  { symbol: 'Cd', name: 'Cadmium', weight: 1.0, idealValue: 0 },
+  { symbol: 'Cr', name: 'Chromium', weight: 1.0, idealValue: 0 },
+  { symbol: 'Cu', name: 'Copper', weight: 1.0, idealValue: 0.05 },
+  { symbol: 'Fe', name: 'Iron', weight: 1.0, idealValue: 0 },
+  { symbol: 'Mn', name: 'Manganese', weight: 1.0, idealValue: 0 },
+  { symbol: 'Ni', name: 'Nickel', weight: 1.0, idealValue: 0 },
+  { symbol: 'Pb', name: 'Lead', weight: 1.0, idealValue: 0 },
+  { symbol: 'Zn', name: 'Zinc', weight: 1.0, idealValue: 0 },
+  { symbol: 'Hg', name: 'Mercury', weight: 1.0, idealValue: 0 },
+  { symbol: 'Co', name: 'Cobalt', weight: 1.0, idealValue: 0 },
+  { symbol: 'Se', name: 'Selenium', weight: 1.0, idealValue: 0 },
+  { symbol: 'Al', name: 'Aluminium', weight: 1.0, idealValue: 0 },
+  { symbol: 'Ba', name: 'Barium', weight: 1.0, idealValue: 0 },
+  { symbol: 'Sb', name: 'Antimony', weight: 1.0, idealValue: 0 },
+  { symbol: 'Mo', name: 'Molybdenum', weight: 1.0, idealValue: 0 },
+  { symbol: 'U', name: 'Uranium', weight: 1.0, idealValue: 0 },
+  { symbol: 'B', name: 'Boron', weight: 1.0, idealValue: 0 },
+] as const satisfies readonly ElementDefinition[];
+
+export type ElementSymbol = (typeof ELEMENT_CATALOGUE)[number]["symbol"];
+
+export const ELEMENT_SYMBOLS: ElementSymbol[] = ELEMENT_CATALOGUE.map(({ symbol }) => symbol);
+
+export function elementName(symbol: ElementSymbol): string {
+  return ELEMENT_CATALOGUE.find(element => element.symbol === symbol)?.name ?? symbol;
+}
+
+// Matches a column header to an element symbol, ignoring case and surrounding whitespace
+export function matchElementSymbol(header: string): ElementSymbol | undefined {
+  const key = header.trim().toLowerCase();
+  return ELEMENT_SYMBOLS.find(symbol => symbol.toLowerCase() === key);
+}
+
+// Elements measured in at least one sample, in catalogue order
+export function analysedElements(samples: Partial<Record<ElementSymbol, number>>[]): ElementSymbol[] {
+  return ELEMENT_SYMBOLS.filter(symbol => samples.some(metals => metals[symbol] !== undefined));
+}
+
+export function elementValues(key: "weight" | "idealValue"): Record<ElementSymbol, number> {
+  return Object.fromEntries(ELEMENT_CATALOGUE.map(element => [element.symbol, element[key]])) as Record<ElementSymbol, number>;
+}
@@ -0,0 +1,6 @@
+export interface ElementDefinition {
+  symbol: string;
+  name: string;
+  weight: number; // relative weight, used by the legacy HPI only
+  idealValue: number; // Ii for the Mohan HPI (mg/L)
+}
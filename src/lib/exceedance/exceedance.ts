@@ -0,0 +1,64 @@
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import type { StandardLimit, StandardSet } from "@/lib/standards";
+import type { ExceedanceLevel, ExceedanceSummary, MetalExceedance } from "./types";
+
+export function exceedanceLevel(concentration: number, { acceptable, permissible }: StandardLimit): ExceedanceLevel {
+  if (concentration > permissible) return 'above-permissible';
+  return acceptable !== undefined && concentration > acceptable ? 'above-acceptable' : 'within';
+}
+
+// Ci / Si of every element with a permissible limit, highest ratio first. Elements without a
+// limit (Fe under some standards, for instance) are left out rather than ranked by mg/L.
+export function exceedanceRatios(metals: MetalConcentrations, limits: StandardSet["limits"]): MetalExceedance[] {
+  return (Object.keys(metals) as MetalSymbol[])
+    .filter(metal => limits[metal]?.permissible > 0)
+    .map(metal => {
+      const concentration = metals[metal];
+      const limit = limits[metal];
+      return {
+        metal,
+        concentration,
+        limit: limit.permissible,
+        ratio: concentration / limit.permissible,
+        level: exceedanceLevel(concentration, limit),
+      };
+    })
+    .sort((a, b) => b.ratio - a.ratio);
+}
+
+// Counts per element of samples within, above the acceptable and above the permissible limit,
+// each sample judged against its own standard. Elements are ordered by the share of samples
+// above the permissible limit, then by the highest ratio.
+export function summariseExceedance(
+  samples: { metals: MetalConcentrations; limits: StandardSet["limits"] }[]
+): ExceedanceSummary[] {
+  const summaries = new Map<MetalSymbol, ExceedanceSummary & { ratioSum: number }>();
+
+  samples.forEach(({ metals, limits }) => {
+    exceedanceRatios(metals, limits).forEach(({ metal, ratio, level }) => {
+      const summary = summaries.get(metal) ?? {
+        metal,
+        samples: 0,
+        within: 0,
+        aboveAcceptable: 0,
+        abovePermissible: 0,
+        hasAcceptable: false,
+        maxRatio: 0,
+        meanRatio: 0,
+        ratioSum: 0,
+      };
+      summary.samples++;
+      if (level === 'within') summary.within++;
+      else if (level === 'above-acceptable') summary.aboveAcceptable++;
+      else summary.abovePermissible++;
+      if (limits[metal].acceptable !== undefined) summary.hasAcceptable = true;
+      summary.maxRatio = Math.max(summary.maxRatio, ratio);
+      summary.ratioSum += ratio;
+      summaries.set(metal, summary);
+    });
+  });
+
+  return Array.from(summaries.values())
+    .map(({ ratioSum, ...summary }) => ({ ...summary, meanRatio: ratioSum / summary.samples }))
+    .sort((a, b) => b.abovePermissible / b.samples - a.abovePermissible / a.samples || b.maxRatio - a.maxRatio);
+}
@@ -0,0 +1,26 @@
+import type { MetalSymbol } from "@/lib/indices";
+
+// Where a concentration sits against its standard. "above-acceptable" needs a standard that
+// sets an acceptable (desirable) limit below the permissible one.
+export type ExceedanceLevel = "within" | "above-acceptable" | "above-permissible";
+
+// One element of one sample against the permissible limit
+export interface MetalExceedance {
+  metal: MetalSymbol;
+  concentration: number; // mg/L, as the indices saw it
+  limit: number; // permissible limit Si, mg/L
+  ratio: number; // Ci / Si; above 1 exceeds the limit
+  level: ExceedanceLevel;
+}
+
+// One element across the samples that measured it and have a limit for it
+export interface ExceedanceSummary {
+  metal: MetalSymbol;
+  samples: number;
+  within: number;
+  aboveAcceptable: number; // above the acceptable limit but within the permissible one
+  abovePermissible: number;
+  hasAcceptable: boolean; // whether any sample's standard sets an acceptable limit
+  maxRatio: number;
+  meanRatio: number;
+}
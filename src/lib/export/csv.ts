@@ -0,0 +1,17 @@
+import Papa from "papaparse";
+
+export type CsvRow = Record<string, string | number | undefined>;
+
+export function toCsv(columns: string[], rows: CsvRow[]): string {
+  return Papa.unparse({ fields: columns, data: rows.map(row => columns.map(col => row[col] ?? '')) });
+}
+
+export function downloadCsv(filename: string, columns: string[], rows: CsvRow[]): void {
+  const blob = new Blob([toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,3 @@
+export * from "./csv";
+export * from "./results";
+export * from "./validation";
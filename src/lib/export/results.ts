@@ -0,0 +1,79 @@
+import type { WaterSample } from "@/lib/samples";
+import { analysedElements } from "@/lib/elements";
+import { INDEX_DEFINITIONS } from "@/lib/indices";
+import { metadataKeys, metadataLabel, metadataValue } from "@/lib/metadata";
+import { CANONICAL_UNIT } from "@/lib/units";
+import type { CsvRow } from "./csv";
+
+// Manual corrections made after upload, e.g. "Pb (was 0.5); latitude (was 12.3)"
+const editNote = (sample: WaterSample) =>
+  sample.addedManually
+    ? 'added manually'
+    : Object.entries(sample.edits ?? {}).map(([column, original]) => `${column} (was ${original || 'blank'})`).join('; ');
+
+// One row per sample: identity and metadata, concentrations in the canonical unit (non-detects
+// as "<DL"), then every computed index with its class, the overall category and the standard
+// it was computed against, or why it could not be computed. Samples corrected by hand carry a
+// note of what changed; merged datasets name the batch and file of each sample and the
+// replicates averaged into it.
+export function resultsTable(samples: WaterSample[]): { columns: string[]; rows: CsvRow[] } {
+  const metals = analysedElements(samples.map(s => s.metals));
+  const indices = INDEX_DEFINITIONS.filter(({ id }) => samples.some(s => s.hmpiResults?.details[id]));
+  const metalColumn = (metal: string) => `${metal} (${CANONICAL_UNIT})`;
+  const metadata = metadataKeys(samples.map(s => s.metadata));
+
+  const columns = [
+    'sampleId',
+    'stationId',
+    'latitude',
+    'longitude',
+    'sampleDate',
+    ...(samples.some(s => s.source) ? ['batch', 'sourceFile'] : []),
+    ...(samples.some(s => s.mergedFrom) ? ['mergedFrom'] : []),
+    ...metadata.map(metadataLabel),
+    ...metals.map(metalColumn),
+    ...indices.flatMap(({ id }) => [id.toUpperCase(), `${id.toUpperCase()} class`]),
+    ...(samples.some(s => s.hmpiResults) ? ['qualityCategory', 'standard'] : []),
+    ...(samples.some(s => s.edits || s.addedManually) ? ['manualEdits'] : []),
+    ...(samples.some(s => s.calculationError) ? ['calculationError'] : []),
+  ];
+
+  const rows = samples.map(sample => {
+    const row: CsvRow = {
+      sampleId: sample.id,
+      stationId: sample.stationId,
+      latitude: sample.latitude,
+      longitude: sample.longitude,
+      sampleDate: sample.sampleDate,
+      batch: sample.source?.batch,
+      sourceFile: sample.source?.fileName,
+      mergedFrom: sample.mergedFrom?.join('; '),
+    };
+
+    metadata.forEach(key => {
+      row[metadataLabel(key)] = metadataValue(sample.metadata, key);
+    });
+
+    metals.forEach(metal => {
+      const censored = sample.censored?.[metal];
+      row[metalColumn(metal)] = censored
+        ? (censored.detectionLimit !== undefined ? `<${censored.detectionLimit}` : 'BDL')
+        : sample.metals[metal];
+    });
+
+    const results = sample.hmpiResults;
+    if (results) {
+      indices.forEach(({ id }) => {
+        row[id.toUpperCase()] = results.details[id]?.value;
+        row[`${id.toUpperCase()} class`] = results.classes[id]?.label;
+      });
+      row.qualityCategory = results.qualityCategory;
+      row.standard = `${results.standard.name} (${results.standard.version})`;
+    }
+    row.manualEdits = editNote(sample);
+    row.calculationError = sample.calculationError;
+    return row;
+  });
+
+  return { columns, rows };
+}
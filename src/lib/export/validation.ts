@@ -0,0 +1,19 @@
+import type { ValidationIssue } from "@/lib/validation";
+import type { CsvRow } from "./csv";
+
+// One row per issue, sorted by row so fixes can be made top to bottom in the source file;
+// rules are written by id so the report can be filtered in a spreadsheet
+export function validationTable(issues: ValidationIssue[]): { columns: string[]; rows: CsvRow[] } {
+  const columns = ['row', 'column', 'value', 'rule', 'severity', 'message'];
+  const rows = [...issues]
+    .sort((a, b) => a.row - b.row)
+    .map(issue => ({
+      row: issue.row,
+      column: issue.column,
+      value: issue.value,
+      rule: issue.rule,
+      severity: issue.severity,
+      message: issue.message,
+    }));
+  return { columns, rows };
+}
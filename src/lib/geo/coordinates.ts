@@ -0,0 +1,55 @@
+import type { CoordinateAxis } from "./types";
+
+const AXIS_LIMITS: Record<CoordinateAxis, number> = { latitude: 90, longitude: 180 };
+const HEMISPHERES: Record<CoordinateAxis, { positive: string; negative: string }> = {
+  latitude: { positive: 'N', negative: 'S' },
+  longitude: { positive: 'E', negative: 'W' },
+};
+
+// Degree, minute and second marks (including the typographic primes) and other separators
+const SEPARATORS = /[\s°º˚'′’"″”:,]+/g;
+const NUMBER = /\d+(?:\.\d+)?|\.\d+/g;
+
+// Reads a coordinate as decimal degrees ("12.9716", "-77.59") or degrees-minutes-seconds
+// ("12°58'17.8\"N", "12 58 17.8 N", "N 12°58.297'"); the hemisphere letter must suit the axis.
+// Returns decimal degrees, or undefined when the text is not a valid coordinate.
+export function parseCoordinate(input: string, axis: CoordinateAxis): number | undefined {
+  let text = input.trim().toUpperCase();
+  if (!text) return undefined;
+
+  let sign = 1;
+  const { positive, negative } = HEMISPHERES[axis];
+  const hemisphere = text.match(/^([NSEW])\s*|\s*([NSEW])$/);
+  if (hemisphere) {
+    const letter = hemisphere[1] ?? hemisphere[2];
+    if (letter !== positive && letter !== negative) return undefined;
+    if (letter === negative) sign = -1;
+    text = text.replace(hemisphere[0], '');
+  }
+  if (text.startsWith('-')) {
+    if (hemisphere) return undefined; // "-12 S" is ambiguous
+    sign = -1;
+    text = text.slice(1);
+  }
+
+  const parts = text.match(NUMBER);
+  if (!parts || parts.length > 3 || text.replace(NUMBER, '').replace(SEPARATORS, '') !== '') return undefined;
+
+  const [degrees, minutes = 0, seconds = 0] = parts.map(Number);
+  if (minutes >= 60 || seconds >= 60) return undefined;
+  // Only the last part may carry a fraction, as in 12°58.297'
+  if (parts.slice(0, -1).some(part => part.includes('.'))) return undefined;
+
+  const value = sign * (degrees + minutes / 60 + seconds / 3600);
+  return Math.abs(value) <= AXIS_LIMITS[axis] ? value : undefined;
+}
+
+// Decimal degrees as degrees, minutes and seconds, e.g. 12°58'17.8"N
+export function formatDms(value: number, axis: CoordinateAxis): string {
+  const { positive, negative } = HEMISPHERES[axis];
+  const totalSeconds = Math.round(Math.abs(value) * 36000) / 10;
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toFixed(1);
+  return `${degrees}°${minutes}'${seconds}"${value < 0 ? negative : positive}`;
+}
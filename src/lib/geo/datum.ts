@@ -0,0 +1,68 @@
+import type { DatumDefinition, DatumId, Ellipsoid, GeographicPoint } from "./types";
+
+export const WGS84_ELLIPSOID: Ellipsoid = { name: 'WGS 84', a: 6378137, f: 1 / 298.257223563 };
+
+// Everest 1830 based datums used on survey sheets in South Asia, with the three-parameter
+// shifts published by EPSG; expect a few metres of residual error after transformation
+export const DATUMS: Record<DatumId, DatumDefinition> = {
+  wgs84: {
+    label: 'WGS 84',
+    region: 'GPS receivers and most modern data',
+    ellipsoid: WGS84_ELLIPSOID,
+    toWgs84: [0, 0, 0],
+  },
+  'kalianpur-1975': {
+    label: 'Kalianpur 1975 (Everest 1830, 1975 definition)',
+    region: 'India and Nepal',
+    ellipsoid: { name: 'Everest 1830 (1975 Definition)', a: 6377299.151, f: 1 / 300.8017255 },
+    toWgs84: [295, 736, 257],
+  },
+  'kalianpur-1962': {
+    label: 'Kalianpur 1962 (Everest 1830, 1962 definition)',
+    region: 'Pakistan',
+    ellipsoid: { name: 'Everest 1830 (1962 Definition)', a: 6377301.243, f: 1 / 300.8017255 },
+    toWgs84: [283, 682, 231],
+  },
+  'kalianpur-1937': {
+    label: 'Kalianpur 1937 (Everest 1830, 1937 adjustment)',
+    region: 'Bangladesh and older Survey of India sheets',
+    ellipsoid: { name: 'Everest 1830 (1937 Adjustment)', a: 6377276.345, f: 1 / 300.8017 },
+    toWgs84: [282, 726, 254],
+  },
+};
+
+export const DEFAULT_DATUM: DatumId = 'wgs84';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function toGeocentric({ latitude, longitude }: GeographicPoint, { a, f }: Ellipsoid): [number, number, number] {
+  const e2 = f * (2 - f);
+  const phi = toRadians(latitude);
+  const lambda = toRadians(longitude);
+  const n = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    n * Math.cos(phi) * Math.cos(lambda),
+    n * Math.cos(phi) * Math.sin(lambda),
+    n * (1 - e2) * Math.sin(phi),
+  ];
+}
+
+// Bowring's closed form, accurate to well under a millimetre near the Earth's surface
+function fromGeocentric([x, y, z]: [number, number, number], { a, f }: Ellipsoid): GeographicPoint {
+  const b = a * (1 - f);
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const p = Math.sqrt(x * x + y * y);
+  const theta = Math.atan2(z * a, p * b);
+  const phi = Math.atan2(z + ep2 * b * Math.sin(theta) ** 3, p - e2 * a * Math.cos(theta) ** 3);
+  return { latitude: toDegrees(phi), longitude: toDegrees(Math.atan2(y, x)) };
+}
+
+// Moves a point from the given datum to WGS 84 through a geocentric translation
+export function toWgs84(point: GeographicPoint, datum: DatumId): GeographicPoint {
+  if (datum === 'wgs84') return point;
+  const { ellipsoid, toWgs84: [dx, dy, dz] } = DATUMS[datum];
+  const [x, y, z] = toGeocentric(point, ellipsoid);
+  return fromGeocentric([x + dx, y + dy, z + dz], WGS84_ELLIPSOID);
+}
@@ -0,0 +1,16 @@
+import type { GeographicPoint } from "./types";
+
+const EARTH_RADIUS_METERS = 6371008.8; // mean radius
+
+// Great-circle (haversine) distance; accurate to well under 1% at the scale of a study area
+export function distanceMeters(a: GeographicPoint, b: GeographicPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Metres spanned by one degree of latitude, used to bound searches before measuring distances
+export const METERS_PER_DEGREE_LATITUDE = (Math.PI * EARTH_RADIUS_METERS) / 180;
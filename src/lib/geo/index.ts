@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./coordinates";
+export * from "./datum";
+export * from "./utm";
+export * from "./study-area";
+export * from "./distance";
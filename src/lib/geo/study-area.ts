@@ -0,0 +1,35 @@
+import type { GeographicPoint, StudyArea } from "./types";
+
+const STORAGE_KEY = 'hmpi.studyArea';
+
+export function loadStudyArea(): StudyArea | undefined {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StudyArea) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveStudyArea(area: StudyArea | undefined): void {
+  if (area) localStorage.setItem(STORAGE_KEY, JSON.stringify(area));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+// Describes what is wrong with a box, if anything
+export function studyAreaError({ south, west, north, east }: StudyArea): string | undefined {
+  if ([south, west, north, east].some(isNaN)) return 'Enter all four bounds';
+  if (south < -90 || north > 90 || west < -180 || east > 180) return 'Bounds must be valid latitudes and longitudes';
+  if (south >= north) return 'South bound must be below the north bound';
+  if (west >= east) return 'West bound must be west of the east bound';
+  return undefined;
+}
+
+const contains = (area: StudyArea, latitude: number, longitude: number) =>
+  latitude >= area.south && latitude <= area.north && longitude >= area.west && longitude <= area.east;
+
+// "swapped" when the point is outside but would be inside with latitude and longitude exchanged
+export function locateInStudyArea({ latitude, longitude }: GeographicPoint, area: StudyArea): 'inside' | 'outside' | 'swapped' {
+  if (contains(area, latitude, longitude)) return 'inside';
+  return contains(area, longitude, latitude) ? 'swapped' : 'outside';
+}
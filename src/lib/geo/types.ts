@@ -0,0 +1,40 @@
+export type CoordinateAxis = "latitude" | "longitude";
+
+export interface GeographicPoint {
+  latitude: number; // decimal degrees
+  longitude: number;
+}
+
+export interface Ellipsoid {
+  name: string;
+  a: number; // semi-major axis (m)
+  f: number; // flattening
+}
+
+export type DatumId = "wgs84" | "kalianpur-1975" | "kalianpur-1962" | "kalianpur-1937";
+
+export interface DatumDefinition {
+  label: string;
+  region: string; // where the datum is in use, to help pick the right one
+  ellipsoid: Ellipsoid;
+  toWgs84: [number, number, number]; // geocentric translation dX, dY, dZ (m)
+}
+
+export interface UtmZone {
+  zone: number; // 1 to 60
+  hemisphere: "N" | "S";
+}
+
+export interface UtmPosition {
+  zone: UtmZone;
+  easting: number; // metres
+  northing: number;
+}
+
+// Expected extent of the sampling campaign, in WGS84 decimal degrees
+export interface StudyArea {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
@@ -0,0 +1,84 @@
+import type { Ellipsoid, GeographicPoint, UtmPosition, UtmZone } from "./types";
+
+const SCALE_FACTOR = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+// Reads "43N", "43 south", "zone 43" (northern hemisphere assumed) or a zone with its MGRS
+// latitude band, e.g. "43Q". N and S are read as hemispheres, as most survey sheets use them;
+// see isAmbiguousUtmZone for why a bare S needs confirming.
+export function parseUtmZone(input: string): UtmZone | undefined {
+  const match = input.trim().toUpperCase().replace(/^ZONE\s*/, '').match(/^(\d{1,2})\s*(NORTH|SOUTH|[C-X])?$/);
+  if (!match) return undefined;
+  const zone = parseInt(match[1]);
+  if (zone < 1 || zone > 60) return undefined;
+  const letter = match[2];
+  if (letter === 'I' || letter === 'O') return undefined;
+  if (letter === 'NORTH' || letter === 'SOUTH') return { zone, hemisphere: letter === 'SOUTH' ? 'S' : 'N' };
+  const hemisphere = letter === 'S' || (letter !== undefined && letter !== 'N' && letter < 'N') ? 'S' : 'N';
+  return { zone, hemisphere };
+}
+
+// A bare S, in a zone or at the start of a position, is also MGRS band S (32°N to 40°N), so it
+// can't be told from the southern hemisphere. "43 south" and "43 north" say which is meant.
+export function isAmbiguousUtmZone(input: string): boolean {
+  return /^(?:ZONE\s*)?\d{1,2}\s*S(?![A-Z])/.test(input.trim().toUpperCase());
+}
+
+// Reads a zone followed by easting and northing in metres, e.g. "43N 500000 2800000"
+export function parseUtmPosition(input: string): UtmPosition | undefined {
+  const match = input.trim().match(/^(.+?)[\s,;]+(\d+(?:\.\d+)?)[\s,;]+(\d+(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  const zone = parseUtmZone(match[1]);
+  return zone ? { zone, easting: Number(match[2]), northing: Number(match[3]) } : undefined;
+}
+
+export function formatUtmZone({ zone, hemisphere }: UtmZone): string {
+  return `${zone}${hemisphere}`;
+}
+
+// Inverse transverse Mercator (Snyder's series), accurate to a few centimetres within the zone.
+// The result is on the ellipsoid given, i.e. in the datum the coordinates were surveyed in.
+export function utmToGeographic(easting: number, northing: number, { zone, hemisphere }: UtmZone, { a, f }: Ellipsoid): GeographicPoint {
+  const e2 = f * (2 - f);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+
+  const x = easting - FALSE_EASTING;
+  const y = hemisphere === 'S' ? northing - FALSE_NORTHING_SOUTH : northing;
+
+  const m = y / SCALE_FACTOR;
+  const mu = m / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = ep2 * cosPhi ** 2;
+  const r1 = (a * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * SCALE_FACTOR);
+
+  const latitude =
+    phi1 -
+    ((n1 * Math.tan(phi1)) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+  const longitude =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+    cosPhi;
+
+  const centralMeridian = (zone - 1) * 6 - 180 + 3;
+  return {
+    latitude: (latitude * 180) / Math.PI,
+    longitude: centralMeridian + (longitude * 180) / Math.PI,
+  };
+}
@@ -0,0 +1,132 @@
+import type { WaterSample } from "@/lib/samples";
+import { parseConcentration } from "@/lib/bdl";
+import { WGS84_ELLIPSOID, isAmbiguousUtmZone, parseCoordinate, parseUtmPosition, utmToGeographic } from "@/lib/geo";
+import { isMetalTarget } from "@/lib/mapping";
+import { CANONICAL_UNIT } from "@/lib/units";
+import type { CellEditResult, GridColumn } from "./types";
+
+export const GRID_FIELD_COLUMNS: GridColumn[] = ['id', 'stationId', 'latitude', 'longitude', 'sampleDate'];
+
+const FIELD_LABELS: Record<string, string> = {
+  id: 'Sample ID',
+  stationId: 'Station',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  sampleDate: 'Date',
+};
+
+export function gridColumnLabel(column: GridColumn): string {
+  return FIELD_LABELS[column] ?? `${column} (${CANONICAL_UNIT})`;
+}
+
+// Cell value as text; non-detects are shown as reported ("<0.001", "BDL")
+export function cellText(sample: WaterSample, column: GridColumn): string {
+  switch (column) {
+    case 'id':
+      return sample.id;
+    case 'stationId':
+      return sample.stationId ?? '';
+    case 'latitude':
+    case 'longitude':
+      return isNaN(sample[column]) ? '' : String(sample[column]);
+    case 'sampleDate':
+      return sample.sampleDate ?? '';
+    default: {
+      const censored = sample.censored?.[column];
+      if (censored) {
+        return censored.raw || (censored.detectionLimit !== undefined ? `<${censored.detectionLimit}` : 'BDL');
+      }
+      return sample.metals[column]?.toString() ?? '';
+    }
+  }
+}
+
+// Applies text typed into a cell, or explains why it can't be accepted. Concentrations are read
+// like uploaded values, so "<0.001" and "BDL" are non-detects and a blank removes the value.
+function applyCellValue(sample: WaterSample, column: GridColumn, text: string): CellEditResult {
+  switch (column) {
+    case 'id':
+      return text ? { ok: true, sample: { ...sample, id: text } } : { ok: false, message: 'Sample ID cannot be empty' };
+    case 'stationId':
+      return { ok: true, sample: { ...sample, stationId: text || undefined } };
+    case 'latitude':
+    case 'longitude': {
+      const value = parseCoordinate(text, column);
+      if (value !== undefined) return { ok: true, sample: { ...sample, [column]: value } };
+      // A UTM position sets both coordinates; grid edits are taken as WGS 84
+      const utm = parseUtmPosition(text);
+      if (utm && isAmbiguousUtmZone(text)) {
+        return { ok: false, message: 'S may be the southern hemisphere or MGRS band S; write the zone as e.g. 43 south or 43 north' };
+      }
+      if (utm) return { ok: true, sample: { ...sample, ...utmToGeographic(utm.easting, utm.northing, utm.zone, WGS84_ELLIPSOID) } };
+      const limit = column === 'latitude' ? 90 : 180;
+      return {
+        ok: false,
+        message: `Enter decimal degrees between -${limit} and ${limit}, DMS such as 25°36'12"N, or UTM such as 43N 500000 2800000`,
+      };
+    }
+    case 'sampleDate':
+      return { ok: true, sample: { ...sample, sampleDate: text || undefined } };
+  }
+
+  if (!isMetalTarget(column)) return { ok: false, message: `Unknown column ${column}` };
+  const parsed = parseConcentration(text);
+  if (parsed.kind === 'invalid') {
+    return { ok: false, message: `Enter a concentration in ${CANONICAL_UNIT}, a value such as <0.001, or BDL` };
+  }
+
+  const { [column]: _previous, ...censored } = sample.censored ?? {};
+  if (parsed.kind === 'missing') {
+    const { [column]: _removed, ...metals } = sample.metals;
+    return {
+      ok: true,
+      sample: { ...sample, metals, censored: Object.keys(censored).length > 0 ? censored : undefined },
+    };
+  }
+  if (parsed.kind === 'censored') {
+    return {
+      ok: true,
+      sample: {
+        ...sample,
+        metals: { ...sample.metals, [column]: parsed.censored.detectionLimit ?? 0 },
+        censored: { ...censored, [column]: parsed.censored },
+      },
+    };
+  }
+  return {
+    ok: true,
+    sample: {
+      ...sample,
+      metals: { ...sample.metals, [column]: parsed.value },
+      censored: Object.keys(censored).length > 0 ? censored : undefined,
+    },
+  };
+}
+
+// Edits a cell and records the value it replaced; editing a cell back to its original value
+// clears the record. Rows added by hand are not tracked cell by cell.
+export function editCell(sample: WaterSample, column: GridColumn, input: string): CellEditResult {
+  const result = applyCellValue(sample, column, input.trim());
+  if (!result.ok || sample.addedManually) return result;
+
+  // A UTM position typed into either coordinate cell changes both
+  const touched: GridColumn[] = column === 'latitude' || column === 'longitude' ? ['latitude', 'longitude'] : [column];
+  const edits = { ...sample.edits };
+  touched.forEach(col => {
+    const original = sample.edits?.[col] ?? cellText(sample, col);
+    delete edits[col];
+    if (cellText(result.sample, col) !== original) edits[col] = original;
+  });
+  return { ok: true, sample: { ...result.sample, edits: Object.keys(edits).length > 0 ? edits : undefined } };
+}
+
+// Blank row for manual entry; coordinates stay invalid until they are filled in
+export function emptySample(id: string): WaterSample {
+  return {
+    id,
+    latitude: NaN,
+    longitude: NaN,
+    metals: {},
+    addedManually: true,
+  };
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./cells";
+export * from "./validate";
+export * from "./view";
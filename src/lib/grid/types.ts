@@ -0,0 +1,36 @@
+import type { WaterSample } from "@/lib/samples";
+import type { MetalSymbol } from "@/lib/indices";
+
+// Editable cell of the sample grid; element columns hold concentrations in the canonical unit
+export type GridColumn = "id" | "stationId" | "latitude" | "longitude" | "sampleDate" | MetalSymbol;
+
+// Value each manually corrected cell had before its first edit, as shown in the grid
+export type SampleEdits = Partial<Record<GridColumn, string>>;
+
+export type CellEditResult = { ok: true; sample: WaterSample } | { ok: false; message: string };
+
+export type SortDirection = "asc" | "desc";
+
+export interface GridSort {
+  column: GridColumn;
+  direction: SortDirection;
+}
+
+export interface GridFilter {
+  column?: GridColumn; // any column when absent
+  query: string;
+  show: "all" | "issues" | "edited";
+}
+
+// A sample together with its position in the full list, which edits are written back to
+export interface GridRow {
+  sample: WaterSample;
+  index: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number; // 0-based, clamped to the last page
+  pageCount: number;
+  start: number; // 0-based position of the first item
+}
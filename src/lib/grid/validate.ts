@@ -0,0 +1,74 @@
+import type { StudyArea } from "@/lib/geo";
+import type { MetalSymbol } from "@/lib/indices";
+import { SampleStore, forEachSample } from "@/lib/store";
+import { CANONICAL_UNIT } from "@/lib/units";
+import {
+  SUSPICIOUS_LIMIT_FACTOR,
+  ValidationIssue,
+  createIssue,
+  duplicateIds,
+  studyAreaIssue,
+  suspiciousThreshold,
+} from "@/lib/validation";
+import { cellText } from "./cells";
+
+// Re-checks samples after edits with the same rules as the upload; rows are numbered from 1 in
+// list order and columns are grid columns
+export function validateSamples(samples: SampleStore, studyArea?: StudyArea): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  // Thresholds come from the whole standards catalogue, so each element's is worked out once
+  const thresholds = new Map<MetalSymbol, number | undefined>();
+  const thresholdOf = (metal: MetalSymbol) => {
+    if (!thresholds.has(metal)) thresholds.set(metal, suspiciousThreshold(metal));
+    return thresholds.get(metal);
+  };
+
+  const ids: { id: string; row: number }[] = [];
+
+  forEachSample(samples, (sample, index) => {
+    const row = index + 1;
+    ids.push({ id: sample.id, row });
+    if (isNaN(sample.latitude) || Math.abs(sample.latitude) > 90) {
+      issues.push(createIssue('invalid-latitude', row, 'latitude', cellText(sample, 'latitude'), 'Latitude is required'));
+    }
+    if (isNaN(sample.longitude) || Math.abs(sample.longitude) > 180) {
+      issues.push(createIssue('invalid-longitude', row, 'longitude', cellText(sample, 'longitude'), 'Longitude is required'));
+    }
+    if (sample.latitude === 0 && sample.longitude === 0) {
+      issues.push(createIssue('zero-coordinates', row, 'latitude', '0, 0', 'Coordinates of 0, 0 usually mean the location is missing'));
+    }
+    const hasPosition = !isNaN(sample.latitude) && !isNaN(sample.longitude);
+    const areaIssue = studyArea && hasPosition &&
+      studyAreaIssue(sample, studyArea, row, 'latitude', `${sample.latitude}, ${sample.longitude}`);
+    if (areaIssue) issues.push(areaIssue);
+    if (sample.sampleDate && isNaN(Date.parse(sample.sampleDate))) {
+      issues.push(createIssue('invalid-date', row, 'sampleDate', sample.sampleDate, 'Date kept as written; it will not sort or filter as a date'));
+    }
+
+    (Object.keys(sample.metals) as MetalSymbol[]).forEach(metal => {
+      const threshold = thresholdOf(metal);
+      const value = sample.metals[metal];
+      const censored = sample.censored?.[metal];
+      if (censored && censored.detectionLimit === undefined) {
+        issues.push(createIssue('missing-detection-limit', row, metal, cellText(sample, metal), `${metal} non-detect has no detection limit; only the zero policy can use it`));
+      }
+      if (!censored && threshold !== undefined && value > threshold) {
+        issues.push(createIssue(
+          'high-concentration',
+          row,
+          metal,
+          value,
+          `${metal} of ${value} ${CANONICAL_UNIT} is over ${SUSPICIOUS_LIMIT_FACTOR}× the highest drinking-water limit; check the unit`
+        ));
+      }
+    });
+  });
+
+  duplicateIds(ids).forEach((rows, id) => {
+    rows.slice(1).forEach(row => {
+      issues.push(createIssue('duplicate-id', row, 'id', id, `Sample ID also used on row ${rows[0]}`));
+    });
+  });
+
+  return issues.sort((a, b) => a.row - b.row);
+}
@@ -0,0 +1,66 @@
+import type { WaterSample } from "@/lib/samples";
+import { SampleStore, forEachSample, sampleAt } from "@/lib/store";
+import type { ValidationIssue } from "@/lib/validation";
+import { GRID_FIELD_COLUMNS, cellText } from "./cells";
+import type { GridColumn, GridFilter, GridSort, Page } from "./types";
+
+const NUMERIC_FIELDS: GridColumn[] = ['latitude', 'longitude'];
+
+const isNumericColumn = (column: GridColumn) =>
+  NUMERIC_FIELDS.includes(column) || !GRID_FIELD_COLUMNS.includes(column);
+
+// Rows are passed around as positions in the store, so filtering and sorting a large dataset
+// never builds a row object per sample; only the page on screen is looked up.
+
+// Numeric columns sort by value (non-detects by their detection limit, empty cells last);
+// the rest sort as text with numbers in natural order
+export function sortRows(samples: SampleStore, rows: number[], { column, direction }: GridSort): number[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  const numericValue = (sample: WaterSample) =>
+    NUMERIC_FIELDS.includes(column)
+      ? (sample[column as 'latitude' | 'longitude'])
+      : sample.metals[column as keyof WaterSample['metals']];
+
+  return [...rows].sort((a, b) => {
+    const sampleA = sampleAt(samples, a);
+    const sampleB = sampleAt(samples, b);
+    if (isNumericColumn(column)) {
+      const x = numericValue(sampleA);
+      const y = numericValue(sampleB);
+      const missingX = x === undefined || isNaN(x);
+      const missingY = y === undefined || isNaN(y);
+      if (missingX || missingY) return Number(missingX) - Number(missingY);
+      return (x - y) * sign;
+    }
+    return cellText(sampleA, column).localeCompare(cellText(sampleB, column), undefined, { numeric: true }) * sign;
+  });
+}
+
+// Positions of the rows that pass the filter, in list order: a case-insensitive substring match
+// on one column or all of them, optionally limited to rows with issues or with manual edits
+export function filterRows(
+  samples: SampleStore,
+  { column, query, show }: GridFilter,
+  columns: GridColumn[],
+  issues: ValidationIssue[]
+): number[] {
+  const needle = query.trim().toLowerCase();
+  const issueRows = new Set(issues.map(issue => issue.row));
+  const rows: number[] = [];
+
+  forEachSample(samples, (sample, index) => {
+    if (show === 'issues' && !issueRows.has(index + 1)) return;
+    if (show === 'edited' && !sample.edits && !sample.addedManually) return;
+    if (needle && !(column ? [column] : columns).some(col => cellText(sample, col).toLowerCase().includes(needle))) return;
+    rows.push(index);
+  });
+  return rows;
+}
+
+// One page of a list; views render a page at a time so large datasets stay responsive
+export function pageOf<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  const start = current * pageSize;
+  return { items: items.slice(start, start + pageSize), page: current, pageCount, start };
+}
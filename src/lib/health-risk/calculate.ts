@@ -0,0 +1,89 @@
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import type {
+  ExposureParameters,
+  HealthRiskParameters,
+  HealthRiskResult,
+  MetalHealthRisk,
+  MetalToxicity,
+  Population,
+  PopulationHealthRisk,
+} from "./types";
+
+const DAYS_PER_YEAR = 365;
+const LITRES_PER_CM3 = 1e-3; // dermal unit conversion factor
+
+// CDI = (C × IR × EF × ED) / (BW × AT)
+function ingestionDose(concentration: number, exposure: ExposureParameters, averagingTime: number): number {
+  const { ingestionRate, exposureFrequency, exposureDuration, bodyWeight } = exposure;
+  return (concentration * ingestionRate * exposureFrequency * exposureDuration) / (bodyWeight * averagingTime);
+}
+
+// DAD = (C × SA × Kp × ET × EF × ED × CF) / (BW × AT)
+function dermalDose(
+  concentration: number,
+  exposure: ExposureParameters,
+  toxicity: MetalToxicity,
+  averagingTime: number,
+): number {
+  const { skinSurfaceArea, exposureTime, exposureFrequency, exposureDuration, bodyWeight } = exposure;
+  return (
+    (concentration * skinSurfaceArea * toxicity.permeability * exposureTime * exposureFrequency * exposureDuration * LITRES_PER_CM3) /
+    (bodyWeight * averagingTime)
+  );
+}
+
+function assessPopulation(
+  metals: MetalConcentrations,
+  exposure: ExposureParameters,
+  toxicityValues: HealthRiskParameters["toxicity"],
+): PopulationHealthRisk {
+  const nonCarcinogenicTime = exposure.exposureDuration * DAYS_PER_YEAR;
+  const carcinogenicTime = exposure.averagingLifetime * DAYS_PER_YEAR;
+  const results: MetalHealthRisk[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const toxicity = toxicityValues[metal];
+    if (!toxicity || !toxicity.referenceDose) return;
+
+    const cdiIngestion = ingestionDose(concentration, exposure, nonCarcinogenicTime);
+    const cdiDermal = dermalDose(concentration, exposure, toxicity, nonCarcinogenicTime);
+    const hqIngestion = cdiIngestion / toxicity.referenceDose;
+    const hqDermal = cdiDermal / (toxicity.referenceDose * toxicity.gastrointestinalAbsorption);
+
+    let cancerRisk: number | undefined;
+    if (toxicity.slopeFactor) {
+      // Lifetime risk averages the dose over the whole lifetime; the dermal slope factor is SF / GIABS
+      cancerRisk =
+        ingestionDose(concentration, exposure, carcinogenicTime) * toxicity.slopeFactor +
+        (dermalDose(concentration, exposure, toxicity, carcinogenicTime) * toxicity.slopeFactor) /
+          toxicity.gastrointestinalAbsorption;
+    }
+
+    results.push({
+      metal,
+      concentration,
+      cdiIngestion,
+      cdiDermal,
+      hqIngestion,
+      hqDermal,
+      hq: hqIngestion + hqDermal,
+      cancerRisk,
+    });
+  });
+
+  return {
+    metals: results,
+    hazardIndex: results.reduce((acc, { hq }) => acc + hq, 0),
+    cancerRisk: results.reduce((acc, { cancerRisk }) => acc + (cancerRisk ?? 0), 0),
+  };
+}
+
+// USEPA hazard quotients, hazard index and lifetime cancer risk through ingestion and dermal contact
+export function assessHealthRisk(metals: MetalConcentrations, parameters: HealthRiskParameters): HealthRiskResult {
+  const populations = Object.keys(parameters.populations) as Population[];
+
+  return populations.reduce((acc, population) => {
+    acc[population] = assessPopulation(metals, parameters.populations[population], parameters.toxicity);
+    return acc;
+  }, {} as HealthRiskResult);
+}
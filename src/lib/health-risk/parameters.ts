@@ -0,0 +1,49 @@
+import type { HealthRiskParameters } from "./types";
+
+export const HAZARD_INDEX_THRESHOLD = 1;
+export const CANCER_RISK_THRESHOLD = 1e-4;
+
+// USEPA (2004, 2011) default exposure factors for drinking water
+export const DEFAULT_HEALTH_RISK_PARAMETERS: HealthRiskParameters = {
+  populations: {
+    adult: {
+      ingestionRate: 2.5,
+      bodyWeight: 70,
+      exposureFrequency: 365,
+      exposureDuration: 30,
+      skinSurfaceArea: 18000,
+      exposureTime: 0.58,
+      averagingLifetime: 70,
+    },
+    child: {
+      ingestionRate: 0.78,
+      bodyWeight: 15,
+      exposureFrequency: 365,
+      exposureDuration: 6,
+      skinSurfaceArea: 6600,
+      exposureTime: 1,
+      averagingLifetime: 70,
+    },
+  },
+  // USEPA IRIS / PPRTV / RAGS Part E toxicity values; slope factors for As, Cd, Cr, Ni and Pb
+  toxicity: {
+    As: { referenceDose: 3e-4, permeability: 1e-3, gastrointestinalAbsorption: 1, slopeFactor: 1.5 },
+    Cd: { referenceDose: 5e-4, permeability: 1e-3, gastrointestinalAbsorption: 0.05, slopeFactor: 0.38 },
+    Cr: { referenceDose: 3e-3, permeability: 2e-3, gastrointestinalAbsorption: 0.025, slopeFactor: 0.5 },
+    Cu: { referenceDose: 4e-2, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    Fe: { referenceDose: 7e-1, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    Mn: { referenceDose: 2.4e-2, permeability: 1e-3, gastrointestinalAbsorption: 0.04 },
+    Ni: { referenceDose: 2e-2, permeability: 2e-4, gastrointestinalAbsorption: 0.04, slopeFactor: 1.7 },
+    Pb: { referenceDose: 3.5e-3, permeability: 1e-4, gastrointestinalAbsorption: 1, slopeFactor: 0.0085 },
+    Zn: { referenceDose: 3e-1, permeability: 6e-4, gastrointestinalAbsorption: 1 },
+    Hg: { referenceDose: 3e-4, permeability: 1e-3, gastrointestinalAbsorption: 0.07 },
+    Co: { referenceDose: 3e-4, permeability: 4e-4, gastrointestinalAbsorption: 1 },
+    Se: { referenceDose: 5e-3, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    Al: { referenceDose: 1, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    Ba: { referenceDose: 2e-1, permeability: 1e-3, gastrointestinalAbsorption: 0.07 },
+    Sb: { referenceDose: 4e-4, permeability: 1e-3, gastrointestinalAbsorption: 0.15 },
+    Mo: { referenceDose: 5e-3, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    U: { referenceDose: 3e-3, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+    B: { referenceDose: 2e-1, permeability: 1e-3, gastrointestinalAbsorption: 1 },
+  },
+};
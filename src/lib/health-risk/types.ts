@@ -0,0 +1,44 @@
+import type { MetalSymbol } from "@/lib/indices";
+
+export type Population = "adult" | "child";
+
+export interface ExposureParameters {
+  ingestionRate: number; // IR, L/day
+  bodyWeight: number; // BW, kg
+  exposureFrequency: number; // EF, days/year
+  exposureDuration: number; // ED, years
+  skinSurfaceArea: number; // SA, cm²
+  exposureTime: number; // ET, h/day
+  averagingLifetime: number; // lifetime used for carcinogenic averaging time, years
+}
+
+export interface MetalToxicity {
+  referenceDose: number; // oral RfD, mg/kg/day
+  permeability: number; // Kp, cm/h
+  gastrointestinalAbsorption: number; // GIABS, fraction
+  slopeFactor?: number; // oral SF, (mg/kg/day)⁻¹, carcinogens only
+}
+
+export interface HealthRiskParameters {
+  populations: Record<Population, ExposureParameters>;
+  toxicity: Partial<Record<MetalSymbol, MetalToxicity>>;
+}
+
+export interface MetalHealthRisk {
+  metal: MetalSymbol;
+  concentration: number;
+  cdiIngestion: number; // chronic daily intake, mg/kg/day
+  cdiDermal: number; // dermally absorbed dose, mg/kg/day
+  hqIngestion: number;
+  hqDermal: number;
+  hq: number;
+  cancerRisk?: number;
+}
+
+export interface PopulationHealthRisk {
+  metals: MetalHealthRisk[];
+  hazardIndex: number;
+  cancerRisk: number;
+}
+
+export type HealthRiskResult = Record<Population, PopulationHealthRisk>;
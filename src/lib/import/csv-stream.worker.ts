@@ -0,0 +1,54 @@
+import Papa from "papaparse";
+import type { WaterSample } from "@/lib/samples";
+import type { ValidationIssue } from "@/lib/validation";
+import { createRowReader } from "./samples";
+import { isDataRow, rowRecord } from "./table";
+import type { CsvStreamRequest, CsvStreamResponse, RejectedRow } from "./types";
+
+// Bytes read from the file per chunk; each chunk is validated and posted before the next is read
+const CHUNK_BYTES = 1024 * 1024;
+
+const post = (message: CsvStreamResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<CsvStreamRequest>) => {
+  const { file, headerRow, fields, skipRows, context } = event.data;
+  const read = createRowReader(context);
+  const skip = new Set(skipRows);
+  let line = 0; // 0-based line of the next row
+  let dataRows = 0;
+  let slices = 0; // file slices of CHUNK_BYTES read so far
+
+  Papa.parse<string[]>(file, {
+    chunkSize: CHUNK_BYTES,
+    chunk: (results) => {
+      const samples: WaterSample[] = [];
+      const sampleRows: number[] = [];
+      const issues: ValidationIssue[] = [];
+      const rejected: RejectedRow[] = [];
+
+      results.data.forEach(cells => {
+        const rowNumber = ++line;
+        if (rowNumber <= headerRow + 1 || skip.has(rowNumber)) return;
+        const row = cells.map(cell => cell.trim());
+        if (!isDataRow(row)) return;
+
+        const record = rowRecord(fields, row);
+        const result = read(record, rowNumber, dataRows++);
+        issues.push(...result.issues);
+        if (result.sample) {
+          samples.push(result.sample);
+          sampleRows.push(rowNumber);
+        } else {
+          rejected.push({ row: rowNumber, record });
+        }
+      });
+
+      // Papa reads the file in slices of chunkSize bytes and calls back once per slice, so this is
+      // the byte offset reached; the parser's cursor counts characters and lags on non-ASCII text
+      const bytesRead = Math.min(++slices * CHUNK_BYTES, file.size);
+      post({ type: 'chunk', samples, sampleRows, issues, rejected, bytesRead, rowsRead: line });
+    },
+    complete: () => post({ type: 'done', bytesRead: file.size, rowsRead: line }),
+    error: (error) => post({ type: 'error', message: error.message }),
+  });
+};
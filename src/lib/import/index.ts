@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./read";
+export * from "./table";
+export * from "./samples";
+export * from "./stream";
@@ -0,0 +1,52 @@
+import Papa from "papaparse";
+import type { SheetGrid, SourceFile } from "./types";
+
+export const WORKBOOK_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+export const ACCEPTED_EXTENSIONS = ['.csv', ...WORKBOOK_EXTENSIONS];
+
+// CSV files above this size are previewed from their first rows and streamed through a worker
+// on import instead of being read whole
+export const STREAMING_THRESHOLD_BYTES = 5 * 1024 * 1024;
+export const STREAMING_PREVIEW_ROWS = 200;
+
+const isWorkbook = (name: string) => WORKBOOK_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+// Numbers keep full precision and dates become ISO dates, regardless of cell formatting
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function readCsv(file: File, preview?: number): Promise<SheetGrid> {
+  return new Promise((resolve, reject) => {
+    // Blank lines are kept so that row numbers match the file
+    Papa.parse<string[]>(file, {
+      preview,
+      complete: (results) => resolve(results.data.map(row => row.map(cellText))),
+      error: reject,
+    });
+  });
+}
+
+// The spreadsheet parser is loaded on demand so CSV-only sessions do not pay for it
+async function readWorkbook(file: File): Promise<SourceFile["sheets"]> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '', blankrows: true });
+    return { name, grid: rows.map(row => row.map(cellText)) };
+  });
+}
+
+export async function readSourceFile(file: File): Promise<SourceFile> {
+  if (isWorkbook(file.name)) {
+    return { name: file.name, kind: 'workbook', sheets: await readWorkbook(file) };
+  }
+  if (file.size > STREAMING_THRESHOLD_BYTES) {
+    const grid = await readCsv(file, STREAMING_PREVIEW_ROWS);
+    return { name: file.name, kind: 'csv', sheets: [{ name: file.name, grid }], stream: file };
+  }
+  return { name: file.name, kind: 'csv', sheets: [{ name: file.name, grid: await readCsv(file) }] };
+}
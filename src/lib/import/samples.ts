@@ -0,0 +1,225 @@
+import type { WaterSample } from "@/lib/samples";
+import { CensoredValues, countCensored, parseConcentration } from "@/lib/bdl";
+import { DATUMS, GeographicPoint, isAmbiguousUtmZone, parseCoordinate, parseUtmZone, toWgs84, utmToGeographic } from "@/lib/geo";
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import { isMetalTarget } from "@/lib/mapping";
+import { METADATA_FIELDS, MetadataField, SampleMetadata } from "@/lib/metadata";
+import { SampleStore, createSampleStore } from "@/lib/store";
+import { CANONICAL_UNIT, ReportedUnits, toCanonical } from "@/lib/units";
+import {
+  SUSPICIOUS_LIMIT_FACTOR,
+  ValidationIssue,
+  ValidationResult,
+  createIssue,
+  duplicateIds,
+  rowsWithErrors,
+  studyAreaIssue,
+  suspiciousThreshold,
+} from "@/lib/validation";
+import type { ParsedTable, SampleReadContext } from "./types";
+
+export interface RowReadResult {
+  sample?: WaterSample; // absent when the row has errors
+  issues: ValidationIssue[];
+}
+
+// Prepares a reader that turns one mapped row into a sample, checking every value on the way.
+// Lookups that depend only on the mapping are done once, so the reader can be applied to
+// hundreds of thousands of rows.
+export function createRowReader({ mapping, units, datum, utmZone, studyArea }: SampleReadContext) {
+  const columnOf = (target: string) => Object.keys(mapping).find(col => mapping[col] === target);
+  const idColumn = columnOf('sampleId');
+  const latColumn = columnOf('latitude');
+  const lngColumn = columnOf('longitude');
+  const zoneColumn = columnOf('utmZone');
+  const eastingColumn = columnOf('easting');
+  const northingColumn = columnOf('northing');
+  const dateColumn = columnOf('sampleDate');
+  const stationColumn = columnOf('stationId');
+  const metadataColumns = Object.keys(mapping).filter(col => mapping[col] in METADATA_FIELDS);
+  const extraColumns = Object.keys(mapping).filter(col => mapping[col] === 'extra');
+  // Latitude/longitude take precedence when both kinds of position are mapped
+  const useUtm = !(latColumn && lngColumn);
+  const defaultZone = parseUtmZone(utmZone ?? '');
+  const { ellipsoid } = DATUMS[datum];
+
+  const metalColumns = Object.keys(mapping)
+    .filter(column => isMetalTarget(mapping[column]))
+    .map(column => {
+      const metal = mapping[column] as MetalSymbol;
+      return { column, metal, unit: units[column], threshold: suspiciousThreshold(metal) };
+    });
+  // Shared by every sample of the file
+  const reportedUnits: ReportedUnits = Object.fromEntries(metalColumns.map(c => [c.metal, c.unit]));
+
+  // `index` is the position of the row among the data rows, used for generated IDs
+  return (row: Record<string, string>, rowNumber: number, index: number): RowReadResult => {
+    const issues: ValidationIssue[] = [];
+
+    // Read the position as decimal degrees, DMS or UTM, then move it to WGS 84
+    let position: GeographicPoint | undefined;
+    const positionColumn = useUtm ? eastingColumn : latColumn;
+    const positionText = useUtm
+      ? `${row[eastingColumn] ?? ''}, ${row[northingColumn] ?? ''}`
+      : `${row[latColumn] ?? ''}, ${row[lngColumn] ?? ''}`;
+
+    if (useUtm) {
+      const zone = zoneColumn ? parseUtmZone(row[zoneColumn] ?? '') : defaultZone;
+      const easting = Number(row[eastingColumn]?.trim() || NaN);
+      const northing = Number(row[northingColumn]?.trim() || NaN);
+      if (!zone) {
+        issues.push(createIssue('invalid-utm', rowNumber, zoneColumn, row[zoneColumn], 'UTM zone must be a zone number with its hemisphere, e.g. 43N'));
+      } else if (zoneColumn && isAmbiguousUtmZone(row[zoneColumn])) {
+        issues.push(createIssue(
+          'ambiguous-utm-zone',
+          rowNumber,
+          zoneColumn,
+          row[zoneColumn],
+          'Read as the southern hemisphere; if S is the MGRS latitude band, write the zone as e.g. 43 north'
+        ));
+      }
+      if (isNaN(easting) || isNaN(northing)) {
+        issues.push(createIssue('invalid-utm', rowNumber, eastingColumn, positionText, 'Easting and northing must be numbers in metres'));
+      } else if (zone) {
+        position = utmToGeographic(easting, northing, zone, ellipsoid);
+      }
+    } else {
+      const lat = parseCoordinate(row[latColumn] ?? '', 'latitude');
+      const lng = parseCoordinate(row[lngColumn] ?? '', 'longitude');
+      if (lat === undefined) {
+        issues.push(createIssue('invalid-latitude', rowNumber, latColumn, row[latColumn], `Latitude must be decimal degrees between -90 and 90, or DMS such as 25°36'12"N`));
+      }
+      if (lng === undefined) {
+        issues.push(createIssue('invalid-longitude', rowNumber, lngColumn, row[lngColumn], `Longitude must be decimal degrees between -180 and 180, or DMS such as 85°8'15"E`));
+      }
+      if (lat === 0 && lng === 0) {
+        issues.push(createIssue('zero-coordinates', rowNumber, latColumn, positionText, 'Coordinates of 0, 0 usually mean the location is missing'));
+      }
+      if (lat !== undefined && lng !== undefined) position = { latitude: lat, longitude: lng };
+    }
+
+    if (position) {
+      position = toWgs84(position, datum);
+      const areaIssue = studyArea && studyAreaIssue(position, studyArea, rowNumber, positionColumn, positionText);
+      if (areaIssue) issues.push(areaIssue);
+    }
+
+    const sampleDate = dateColumn ? row[dateColumn]?.trim() : undefined;
+    if (sampleDate && isNaN(Date.parse(sampleDate))) {
+      issues.push(createIssue('invalid-date', rowNumber, dateColumn, sampleDate, 'Date kept as written; it will not sort or filter as a date'));
+    }
+
+    // Check metal concentrations and convert them to mg/L; non-detects keep their detection
+    // limit as the placeholder value and blank cells leave the metal out
+    const metalValues: MetalConcentrations = {};
+    const censored: CensoredValues = {};
+
+    metalColumns.forEach(({ column, metal, unit, threshold }) => {
+      const parsed = parseConcentration(row[column]);
+      if (parsed.kind === 'missing') return;
+      if (parsed.kind === 'invalid') {
+        issues.push(createIssue('invalid-concentration', rowNumber, column, row[column], `Invalid ${metal} concentration`));
+      } else if (parsed.kind === 'censored') {
+        const { detectionLimit } = parsed.censored;
+        const converted = detectionLimit === undefined ? undefined : toCanonical(detectionLimit, unit);
+        if (converted === undefined) {
+          issues.push(createIssue('missing-detection-limit', rowNumber, column, row[column], `${metal} non-detect has no detection limit; only the zero policy can use it`));
+        }
+        metalValues[metal] = converted ?? 0;
+        censored[metal] = { ...parsed.censored, detectionLimit: converted };
+      } else {
+        metalValues[metal] = toCanonical(parsed.value, unit);
+        if (threshold !== undefined && metalValues[metal] > threshold) {
+          issues.push(createIssue(
+            'high-concentration',
+            rowNumber,
+            column,
+            row[column],
+            `${metal} of ${metalValues[metal]} ${CANONICAL_UNIT} is over ${SUSPICIOUS_LIMIT_FACTOR}× the highest drinking-water limit; check the unit`
+          ));
+        }
+      }
+    });
+
+    // Typed metadata fields, then every other kept column under its header
+    const metadata: SampleMetadata = {};
+    metadataColumns.forEach(column => {
+      const field = mapping[column] as MetadataField;
+      const value = row[column]?.trim();
+      if (!value) return;
+      if (METADATA_FIELDS[field].numeric) {
+        const parsed = parseFloat(value);
+        if (isNaN(parsed)) {
+          issues.push(createIssue('invalid-number', rowNumber, column, value, `Invalid ${METADATA_FIELDS[field].label.toLowerCase()}`));
+        } else {
+          Object.assign(metadata, { [field]: parsed });
+        }
+      } else {
+        Object.assign(metadata, { [field]: value });
+      }
+    });
+    extraColumns.forEach(column => {
+      const value = row[column]?.trim();
+      if (value) metadata.extra = { ...metadata.extra, [column]: value };
+    });
+
+    if (issues.some(issue => issue.severity === 'error')) return { issues };
+    return {
+      issues,
+      sample: {
+        id: (idColumn && row[idColumn]?.trim()) || `sample_${index + 1}`,
+        stationId: (stationColumn && row[stationColumn]?.trim()) || undefined,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        sampleDate: sampleDate || undefined,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        metals: metalValues,
+        censored: countCensored(censored) > 0 ? censored : undefined,
+        reportedUnits,
+      },
+    };
+  };
+}
+
+// Repeated IDs are flagged on every occurrence after the first
+export function duplicateIdIssues(ids: { id: string; row: number }[], idColumn?: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  duplicateIds(ids).forEach((rows, id) => {
+    rows.slice(1).forEach(row => {
+      issues.push(createIssue('duplicate-id', row, idColumn, id, `Sample ID also used on row ${rows[0]}`));
+    });
+  });
+  return issues;
+}
+
+// Checks every row of a table held in memory and keeps the ones without errors; rows with
+// errors are quarantined and every problem is reported against its source row and column
+export function validateTable(
+  table: ParsedTable,
+  context: SampleReadContext,
+  skipRow?: Record<string, string> // units row, if any
+): ValidationResult<SampleStore> {
+  const read = createRowReader(context);
+  const issues: ValidationIssue[] = [];
+  const samples: WaterSample[] = [];
+  const sampleRows: number[] = [];
+
+  table.rows.forEach((row, index) => {
+    if (row === skipRow) return;
+    const result = read(row, table.rowNumbers[index], index);
+    issues.push(...result.issues);
+    if (result.sample) {
+      samples.push(result.sample);
+      sampleRows.push(table.rowNumbers[index]);
+    }
+  });
+
+  const idColumn = Object.keys(context.mapping).find(col => context.mapping[col] === 'sampleId');
+  issues.push(...duplicateIdIssues(samples.map((sample, i) => ({ id: sample.id, row: sampleRows[i] })), idColumn));
+
+  return {
+    issues: issues.sort((a, b) => a.row - b.row),
+    valid: createSampleStore(samples),
+    quarantined: rowsWithErrors(issues),
+  };
+}
@@ -0,0 +1,47 @@
+import type { CsvStreamRequest, CsvStreamResponse } from "./types";
+
+type StreamChunk = Extract<CsvStreamResponse, { type: "chunk" }>;
+
+export interface CsvStream {
+  promise: Promise<{ rowsRead: number }>;
+  cancel: () => void;
+}
+
+// Streams a CSV file through validation in a dedicated worker, chunk by chunk, so neither the
+// file text nor its rows are ever held in memory at once
+export function streamCsvSamples(request: CsvStreamRequest, onChunk: (chunk: StreamChunk) => void): CsvStream {
+  const worker = new Worker(new URL("./csv-stream.worker.ts", import.meta.url), { type: "module" });
+  let rejectStream: (reason: Error) => void = () => {};
+
+  const promise = new Promise<{ rowsRead: number }>((resolve, reject) => {
+    rejectStream = reject;
+
+    worker.onmessage = (event: MessageEvent<CsvStreamResponse>) => {
+      const message = event.data;
+      if (message.type === 'chunk') {
+        onChunk(message);
+      } else if (message.type === 'done') {
+        worker.terminate();
+        resolve({ rowsRead: message.rowsRead });
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectStream(new Error("Import cancelled"));
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type { ParsedTable, SheetGrid } from "./types";
+
+const filledCells = (row: string[]) => row.filter(cell => cell !== '').length;
+
+// Title blocks above a table rarely fill more than one or two cells, so the header is taken to
+// be the first of the leading rows that fills at least 60% as many cells as the widest of them
+export function detectHeaderRow(grid: SheetGrid): number {
+  const leading = grid.slice(0, 20);
+  const widest = Math.max(0, ...leading.map(filledCells));
+  const index = leading.findIndex(row => filledCells(row) >= Math.max(2, widest * 0.6));
+  return index === -1 ? 0 : index;
+}
+
+// Blank headers are named after their position and repeated ones numbered
+export function tableFields(header: string[]): string[] {
+  const fields: string[] = [];
+  header.forEach((cell, i) => {
+    const name = cell || `Column ${i + 1}`;
+    let field = name;
+    for (let n = 2; fields.includes(field); n++) field = `${name} (${n})`;
+    fields.push(field);
+  });
+  return fields;
+}
+
+// Rows with fewer than two filled cells, such as notes and footers, hold no sample
+export function isDataRow(row: string[]): boolean {
+  return filledCells(row) >= 2;
+}
+
+export function rowRecord(fields: string[], row: string[]): Record<string, string> {
+  return Object.fromEntries(fields.map((field, col) => [field, row[col] ?? '']));
+}
+
+// Data rows below the header become records keyed by header
+export function gridToTable(grid: SheetGrid, headerRow: number): ParsedTable {
+  const fields = tableFields(grid[headerRow] ?? []);
+
+  const rows: Record<string, string>[] = [];
+  const rowNumbers: number[] = [];
+  grid.slice(headerRow + 1).forEach((row, i) => {
+    if (!isDataRow(row)) return;
+    rows.push(rowRecord(fields, row));
+    rowNumbers.push(headerRow + i + 2);
+  });
+
+  return { fields, rows, rowNumbers };
+}
@@ -0,0 +1,62 @@
+import type { WaterSample } from "@/lib/samples";
+import type { DatumId, StudyArea } from "@/lib/geo";
+import type { ColumnMapping } from "@/lib/mapping";
+import type { ConcentrationUnit } from "@/lib/units";
+import type { ValidationIssue } from "@/lib/validation";
+
+// Cells of one sheet as text, row by row
+export type SheetGrid = string[][];
+
+export interface SourceSheet {
+  name: string;
+  grid: SheetGrid;
+}
+
+export interface SourceFile {
+  name: string;
+  kind: "csv" | "workbook";
+  sheets: SourceSheet[]; // a CSV file has a single sheet
+  stream?: File; // set for large CSV files: `sheets` holds the first rows only and the file is streamed on import
+}
+
+// Data rows keyed by header, as fed to column mapping and validation
+export interface ParsedTable {
+  fields: string[];
+  rows: Record<string, string>[];
+  rowNumbers: number[]; // 1-based row in the source sheet of each entry in `rows`
+}
+
+// Everything needed to turn a mapped row into a sample
+export interface SampleReadContext {
+  mapping: ColumnMapping;
+  units: Record<string, ConcentrationUnit>; // unit of each element column
+  datum: DatumId; // datum the coordinates were recorded in
+  utmZone?: string; // zone for UTM positions when there is no zone column
+  studyArea?: StudyArea;
+}
+
+export interface RejectedRow {
+  row: number; // 1-based line or sheet row
+  record: Record<string, string>;
+}
+
+export interface CsvStreamRequest {
+  file: File;
+  headerRow: number; // 0-based line of the column headers
+  fields: string[]; // headers as named in the preview table
+  skipRows: number[]; // 1-based lines to leave out, such as a units row
+  context: SampleReadContext;
+}
+
+export type CsvStreamResponse =
+  | {
+      type: "chunk";
+      samples: WaterSample[];
+      sampleRows: number[]; // source line of each sample
+      issues: ValidationIssue[];
+      rejected: RejectedRow[]; // rows quarantined because of errors, as they appeared in the file
+      bytesRead: number;
+      rowsRead: number;
+    }
+  | { type: "done"; bytesRead: number; rowsRead: number }
+  | { type: "error"; message: string };
@@ -0,0 +1,12 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, CdResult, MetalConcentrations } from "./types";
+
+// Cd = Σ Cfi with Cfi = Ci / Si − 1 (Backman et al., 1998)
+export function calculateCd(metals: MetalConcentrations, { standards }: CalculationOptions): CdResult {
+  const factors = contaminationFactors(metals, standards).map((factor) => ({ ...factor, cfi: factor.cf - 1 }));
+
+  return {
+    value: factors.reduce((acc, { cfi }) => acc + cfi, 0),
+    metals: factors,
+  };
+}
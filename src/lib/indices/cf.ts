@@ -0,0 +1,13 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, CfResult, MetalConcentrations } from "./types";
+
+// Mean contamination factor across all metals with a reference value
+export function calculateCF(metals: MetalConcentrations, { standards }: CalculationOptions): CfResult {
+  const factors = contaminationFactors(metals, standards);
+  const total = factors.reduce((acc, { cf }) => acc + cf, 0);
+
+  return {
+    value: factors.length > 0 ? total / factors.length : 0,
+    metals: factors,
+  };
+}
@@ -0,0 +1,149 @@
+import type {
+  ClassificationBand,
+  IndexClassification,
+  IndexId,
+  OverallCategoryRule,
+  QualityCategory,
+} from "./types";
+
+// Categories ordered from best to worst
+export const QUALITY_CATEGORIES: QualityCategory[] = ['excellent', 'good', 'moderate', 'poor', 'unsuitable'];
+
+// HPI bands with the critical pollution index value of 100 (Prasad & Bose, 2001)
+export const HPI_BANDS: ClassificationBand[] = [
+  { label: 'Excellent', upper: 25, category: 'excellent' },
+  { label: 'Good', upper: 50, category: 'good' },
+  { label: 'Moderate', upper: 75, category: 'moderate' },
+  { label: 'Poor', upper: 100, category: 'poor' },
+  { label: 'Unsuitable (above critical value)', upper: Infinity, category: 'unsuitable' },
+];
+
+// PLI below 1 indicates no pollution, above 1 progressive deterioration (Tomlinson et al., 1980)
+export const PLI_BANDS: ClassificationBand[] = [
+  { label: 'Unpolluted', upper: 1, category: 'excellent' },
+  { label: 'Polluted', upper: Infinity, category: 'poor' },
+];
+
+// Contamination factor classes (Hakanson, 1980)
+export const CF_BANDS: ClassificationBand[] = [
+  { label: 'Low', upper: 1, category: 'excellent' },
+  { label: 'Moderate', upper: 3, category: 'moderate' },
+  { label: 'Considerable', upper: 6, category: 'poor' },
+  { label: 'Very high', upper: Infinity, category: 'unsuitable' },
+];
+
+// Heavy metal evaluation index bands (Edet & Offiong, 2002)
+export const HEI_BANDS: ClassificationBand[] = [
+  { label: 'Low', upper: 10, category: 'excellent' },
+  { label: 'Medium', upper: 20, category: 'moderate' },
+  { label: 'High', upper: Infinity, category: 'unsuitable' },
+];
+
+// Degree of contamination bands (Backman et al., 1998)
+export const CD_BANDS: ClassificationBand[] = [
+  { label: 'Low', upper: 1, category: 'excellent' },
+  { label: 'Medium', upper: 3, category: 'moderate' },
+  { label: 'High', upper: Infinity, category: 'unsuitable' },
+];
+
+// Nemerow integrated pollution index grades
+export const NEMEROW_BANDS: ClassificationBand[] = [
+  { label: 'Clean', upper: 0.7, category: 'excellent' },
+  { label: 'Warning limit', upper: 1, category: 'good' },
+  { label: 'Slightly polluted', upper: 2, category: 'moderate' },
+  { label: 'Moderately polluted', upper: 3, category: 'poor' },
+  { label: 'Heavily polluted', upper: Infinity, category: 'unsuitable' },
+];
+
+// Metal index classes (Lyulko et al., 2001)
+export const MI_BANDS: ClassificationBand[] = [
+  { label: 'Very pure', upper: 0.3, category: 'excellent' },
+  { label: 'Pure', upper: 1, category: 'good' },
+  { label: 'Slightly affected', upper: 2, category: 'moderate' },
+  { label: 'Moderately affected', upper: 4, category: 'poor' },
+  { label: 'Strongly affected', upper: 6, category: 'unsuitable' },
+  { label: 'Seriously affected', upper: Infinity, category: 'unsuitable' },
+];
+
+// Müller (1969) geo-accumulation classes
+export const IGEO_BANDS: ClassificationBand[] = [
+  { label: 'Class 0: Uncontaminated', upper: 0, category: 'excellent' },
+  { label: 'Class 1: Uncontaminated to moderately', upper: 1, category: 'good' },
+  { label: 'Class 2: Moderately contaminated', upper: 2, category: 'moderate' },
+  { label: 'Class 3: Moderately to heavily', upper: 3, category: 'poor' },
+  { label: 'Class 4: Heavily contaminated', upper: 4, category: 'unsuitable' },
+  { label: 'Class 5: Heavily to extremely', upper: 5, category: 'unsuitable' },
+  { label: 'Class 6: Extremely contaminated', upper: Infinity, category: 'unsuitable' },
+];
+
+// Enrichment factor categories (Sutherland, 2000)
+export const EF_BANDS: ClassificationBand[] = [
+  { label: 'Minimal enrichment', upper: 2, category: 'excellent' },
+  { label: 'Moderate enrichment', upper: 5, category: 'good' },
+  { label: 'Significant enrichment', upper: 20, category: 'moderate' },
+  { label: 'Very high enrichment', upper: 40, category: 'poor' },
+  { label: 'Extremely high enrichment', upper: Infinity, category: 'unsuitable' },
+];
+
+// Hakanson (1980) potential ecological risk of a single metal
+export const ER_BANDS: ClassificationBand[] = [
+  { label: 'Low', upper: 40, category: 'excellent' },
+  { label: 'Moderate', upper: 80, category: 'good' },
+  { label: 'Considerable', upper: 160, category: 'moderate' },
+  { label: 'High', upper: 320, category: 'poor' },
+  { label: 'Very high', upper: Infinity, category: 'unsuitable' },
+];
+
+// Hakanson (1980) potential ecological risk index
+export const RI_BANDS: ClassificationBand[] = [
+  { label: 'Low', upper: 150, category: 'excellent' },
+  { label: 'Moderate', upper: 300, category: 'moderate' },
+  { label: 'Considerable', upper: 600, category: 'poor' },
+  { label: 'Very high', upper: Infinity, category: 'unsuitable' },
+];
+
+export function classifyValue(value: number, bands: ClassificationBand[]): IndexClassification {
+  const band = bands.find(({ upper }) => value < upper) ?? bands[bands.length - 1];
+  return { label: band.label, category: band.category };
+}
+
+export function worstCategory(categories: QualityCategory[]): QualityCategory {
+  return categories.reduce<QualityCategory>(
+    (worst, category) => (QUALITY_CATEGORIES.indexOf(category) > QUALITY_CATEGORIES.indexOf(worst) ? category : worst),
+    'excellent',
+  );
+}
+
+// Indices the rule covers among those actually computed. A rule with nothing to cover
+// (HPI deselected, or an empty custom subset) falls back to all computed indices.
+export function ruleIndices(rule: OverallCategoryRule, computed: IndexId[]): IndexId[] {
+  const covered =
+    rule.type === 'hpi-only' ? computed.filter(id => id === 'hpi') :
+    rule.type === 'custom' ? computed.filter(id => rule.indices.includes(id)) :
+    computed;
+  return covered.length > 0 ? covered : computed;
+}
+
+export function overallCategory(
+  classes: Partial<Record<IndexId, IndexClassification>>,
+  rule: OverallCategoryRule,
+): QualityCategory {
+  const computed = Object.keys(classes) as IndexId[];
+  return worstCategory(ruleIndices(rule, computed).map(id => classes[id]!.category));
+}
+
+// Band upper bounds must increase strictly, with only the last band left open-ended
+export function isSchemeValid(scheme: ClassificationBand[]): boolean {
+  return scheme.every(({ upper }, index) => {
+    if (isNaN(upper)) return false;
+    const isLast = index === scheme.length - 1;
+    if (!isLast && upper === Infinity) return false;
+    return index === 0 || upper > scheme[index - 1].upper;
+  });
+}
+
+export function describeCategoryRule(rule: OverallCategoryRule): string {
+  if (rule.type === 'hpi-only') return 'HPI class only';
+  if (rule.type === 'custom') return `worst class of ${rule.indices.map(id => id.toUpperCase()).join(', ')}`;
+  return 'worst class of all computed indices';
+}
@@ -0,0 +1,15 @@
+import type { ContaminationFactorResult, MetalConcentrations, MetalSymbol, MetalValues } from "./types";
+
+// Ratio of each measured concentration to its reference value (Ci / Si)
+export function contaminationFactors(metals: MetalConcentrations, standards: MetalValues): ContaminationFactorResult[] {
+  const results: ContaminationFactorResult[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const standard = standards[metal];
+    if (standard) {
+      results.push({ metal, concentration, standard, cf: concentration / standard });
+    }
+  });
+
+  return results;
+}
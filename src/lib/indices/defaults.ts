@@ -0,0 +1,34 @@
+import { DEFAULT_BACKGROUND_SET } from "@/lib/background";
+import { elementValues } from "@/lib/elements";
+import { DEFAULT_STANDARD_SET, referenceValues } from "@/lib/standards";
+import type { CalculationOptions, MetalSymbol } from "./types";
+
+export const METAL_WEIGHTS: Record<MetalSymbol, number> = elementValues('weight');
+
+// Ideal values (Ii) for the Mohan HPI, see the element catalogue
+export const IDEAL_VALUES: Record<MetalSymbol, number> = elementValues('idealValue');
+
+// Hakanson (1980) toxic response factors; elements without one (e.g. Fe, Al) are excluded from RI
+export const TOXIC_RESPONSE_FACTORS: Partial<Record<MetalSymbol, number>> = {
+  As: 10,
+  Cd: 30,
+  Cr: 2,
+  Cu: 5,
+  Mn: 1,
+  Ni: 5,
+  Pb: 5,
+  Zn: 1,
+  Hg: 40,
+  Co: 5
+};
+
+export const DEFAULT_CALCULATION_OPTIONS: CalculationOptions = {
+  standards: referenceValues(DEFAULT_STANDARD_SET),
+  weights: METAL_WEIGHTS,
+  hpiMethod: 'mohan',
+  idealValues: IDEAL_VALUES,
+  proportionalityConstant: 1,
+  background: DEFAULT_BACKGROUND_SET.values,
+  referenceElement: 'Fe',
+  toxicResponseFactors: TOXIC_RESPONSE_FACTORS,
+};
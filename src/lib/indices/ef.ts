@@ -0,0 +1,28 @@
+import type { CalculationOptions, EfMetalResult, EfResult, MetalConcentrations, MetalSymbol } from "./types";
+
+// EF = (Cx / Cref)sample / (Bx / Bref)background, normalised to a conservative reference
+// element such as Fe or Mn. The sample value is the highest EF among its metals.
+export function calculateEF(
+  metals: MetalConcentrations,
+  { background, referenceElement }: CalculationOptions,
+): EfResult {
+  const results: EfMetalResult[] = [];
+  const sampleReference = metals[referenceElement];
+  const backgroundReference = background[referenceElement];
+
+  if (sampleReference > 0 && backgroundReference) {
+    (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+      const reference = background[metal];
+      if (metal !== referenceElement && reference) {
+        const ef = (concentration / sampleReference) / (reference / backgroundReference);
+        results.push({ metal, concentration, background: reference, ef });
+      }
+    });
+  }
+
+  return {
+    value: results.length > 0 ? Math.max(...results.map(({ ef }) => ef)) : 0,
+    metals: results,
+    referenceElement,
+  };
+}
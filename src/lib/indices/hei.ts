@@ -0,0 +1,12 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, HeiResult, MetalConcentrations } from "./types";
+
+// HEI = Σ Hc / Hmac, the sum of each metal's concentration over its maximum admissible concentration
+export function calculateHEI(metals: MetalConcentrations, { standards }: CalculationOptions): HeiResult {
+  const factors = contaminationFactors(metals, standards);
+
+  return {
+    value: factors.reduce((acc, { cf }) => acc + cf, 0),
+    metals: factors,
+  };
+}
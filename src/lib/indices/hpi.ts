@@ -0,0 +1,67 @@
+import type { CalculationOptions, HpiMetalResult, HpiMethod, HpiResult, MetalConcentrations, MetalSymbol } from "./types";
+
+export const HPI_METHODS: Record<HpiMethod, { name: string; formula: string }> = {
+  mohan: {
+    name: 'Mohan et al. (1996)',
+    formula: 'HPI = Σ(Wi × Qi) / ΣWi, Wi = k / Si, Qi = |Mi − Ii| / (Si − Ii) × 100',
+  },
+  legacy: {
+    name: 'Legacy (simplified)',
+    formula: 'HPI = Σ(Wi × Qi) / ΣWi, Qi = Ci / Si × 100 with relative weights',
+  },
+};
+
+// Wi = k / Si and Qi = |Mi − Ii| / (Si − Ii) × 100. Metals whose standard does not
+// exceed their ideal value have no defined sub-index and are skipped.
+function mohanHPI(
+  metals: MetalConcentrations,
+  { standards, idealValues, proportionalityConstant }: CalculationOptions,
+): HpiMetalResult[] {
+  const results: HpiMetalResult[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const standard = standards[metal];
+    const ideal = idealValues[metal] ?? 0;
+
+    if (standard && standard > ideal) {
+      results.push({
+        metal,
+        concentration,
+        standard,
+        ideal,
+        weight: proportionalityConstant / standard,
+        subIndex: (Math.abs(concentration - ideal) / (standard - ideal)) * 100,
+      });
+    }
+  });
+
+  return results;
+}
+
+// Wi is the relative metal weight and Qi = Ci / Si × 100
+function legacyHPI(metals: MetalConcentrations, { standards, weights }: CalculationOptions): HpiMetalResult[] {
+  const results: HpiMetalResult[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const standard = standards[metal];
+    const weight = weights[metal];
+
+    if (standard && weight) {
+      results.push({ metal, concentration, standard, weight, subIndex: (concentration / standard) * 100 });
+    }
+  });
+
+  return results;
+}
+
+export function calculateHPI(metals: MetalConcentrations, options: CalculationOptions): HpiResult {
+  const results = options.hpiMethod === 'legacy' ? legacyHPI(metals, options) : mohanHPI(metals, options);
+  const weightedSum = results.reduce((acc, { weight, subIndex }) => acc + weight * subIndex, 0);
+  const totalWeight = results.reduce((acc, { weight }) => acc + weight, 0);
+
+  return {
+    value: totalWeight > 0 ? weightedSum / totalWeight : 0,
+    metals: results,
+    method: options.hpiMethod,
+  };
+}
@@ -0,0 +1,27 @@
+import { IGEO_BANDS } from "./classification";
+import type { CalculationOptions, IgeoMetalResult, IgeoResult, MetalConcentrations, MetalSymbol } from "./types";
+
+// Müller (1969) class 0–6 for a geo-accumulation index value, on the same boundaries as
+// IGEO_BANDS so the class always matches the classification label
+export function mullerClass(igeo: number): number {
+  const index = IGEO_BANDS.findIndex(({ upper }) => igeo < upper);
+  return index === -1 ? IGEO_BANDS.length - 1 : index;
+}
+
+// Igeo = log2(Cn / 1.5 Bn); the sample value is the highest Igeo among its metals
+export function calculateIgeo(metals: MetalConcentrations, { background }: CalculationOptions): IgeoResult {
+  const results: IgeoMetalResult[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const reference = background[metal];
+    if (reference && concentration > 0) {
+      const igeo = Math.log2(concentration / (1.5 * reference));
+      results.push({ metal, concentration, background: reference, igeo, mullerClass: mullerClass(igeo) });
+    }
+  });
+
+  return {
+    value: results.length > 0 ? Math.max(...results.map(({ igeo }) => igeo)) : 0,
+    metals: results,
+  };
+}
@@ -0,0 +1,15 @@
+export * from "./types";
+export * from "./defaults";
+export * from "./contamination";
+export * from "./hpi";
+export * from "./pli";
+export * from "./cf";
+export * from "./hei";
+export * from "./cd";
+export * from "./nemerow";
+export * from "./mi";
+export * from "./igeo";
+export * from "./ef";
+export * from "./ri";
+export * from "./classification";
+export * from "./registry";
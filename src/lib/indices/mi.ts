@@ -0,0 +1,12 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, MetalConcentrations, MiResult } from "./types";
+
+// MI = Σ Ci / MACi, where MACi is the maximum allowed concentration of each metal
+export function calculateMI(metals: MetalConcentrations, { standards }: CalculationOptions): MiResult {
+  const factors = contaminationFactors(metals, standards);
+
+  return {
+    value: factors.reduce((acc, { cf }) => acc + cf, 0),
+    metals: factors,
+  };
+}
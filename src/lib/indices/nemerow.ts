@@ -0,0 +1,21 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, MetalConcentrations, NemerowResult } from "./types";
+
+// PN = √((Pavg² + Pmax²) / 2), where Pi = Ci / Si is the single-factor index of each metal
+export function calculateNemerow(metals: MetalConcentrations, { standards }: CalculationOptions): NemerowResult {
+  const factors = contaminationFactors(metals, standards);
+
+  if (factors.length === 0) {
+    return { value: 0, metals: factors, mean: 0, max: 0 };
+  }
+
+  const mean = factors.reduce((acc, { cf }) => acc + cf, 0) / factors.length;
+  const max = Math.max(...factors.map(({ cf }) => cf));
+
+  return {
+    value: Math.sqrt((mean * mean + max * max) / 2),
+    metals: factors,
+    mean,
+    max,
+  };
+}
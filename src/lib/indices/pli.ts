@@ -0,0 +1,13 @@
+import { contaminationFactors } from "./contamination";
+import type { CalculationOptions, MetalConcentrations, PliResult } from "./types";
+
+// PLI = (CF1 × CF2 × ... × CFn)^(1/n)
+export function calculatePLI(metals: MetalConcentrations, { standards }: CalculationOptions): PliResult {
+  const factors = contaminationFactors(metals, standards);
+  const product = factors.reduce((acc, { cf }) => acc * cf, 1);
+
+  return {
+    value: factors.length > 0 ? Math.pow(product, 1 / factors.length) : 0,
+    metals: factors,
+  };
+}
@@ -0,0 +1,153 @@
+import { calculateCd } from "./cd";
+import { calculateCF } from "./cf";
+import {
+  CD_BANDS,
+  CF_BANDS,
+  EF_BANDS,
+  HPI_BANDS,
+  HEI_BANDS,
+  IGEO_BANDS,
+  MI_BANDS,
+  NEMEROW_BANDS,
+  PLI_BANDS,
+  RI_BANDS,
+  classifyValue,
+} from "./classification";
+import { calculateEF } from "./ef";
+import { calculateHEI } from "./hei";
+import { calculateIgeo } from "./igeo";
+import { calculateMI } from "./mi";
+import { calculateNemerow } from "./nemerow";
+import { calculateRI } from "./ri";
+import { calculateHPI } from "./hpi";
+import { calculatePLI } from "./pli";
+import type {
+  CalculationOptions,
+  ClassificationSchemes,
+  IndexClassification,
+  IndexDefinition,
+  IndexId,
+  IndexResultMap,
+  MetalConcentrations,
+} from "./types";
+
+export const INDEX_REGISTRY: { [K in IndexId]: IndexDefinition<K> } = {
+  hpi: {
+    id: 'hpi',
+    name: 'Heavy Metal Pollution Index (HPI)',
+    description: 'Composite index rating the overall quality of water',
+    recommended: true,
+    bands: HPI_BANDS,
+    calculate: calculateHPI,
+  },
+  pli: {
+    id: 'pli',
+    name: 'Pollution Load Index (PLI)',
+    description: 'Provides comparative means for assessing the degree of heavy metal pollution',
+    recommended: true,
+    bands: PLI_BANDS,
+    calculate: calculatePLI,
+  },
+  cf: {
+    id: 'cf',
+    name: 'Contamination Factor (CF)',
+    description: 'Mean ratio of metal concentrations to the selected drinking-water standard',
+    recommended: false,
+    bands: CF_BANDS,
+    calculate: calculateCF,
+  },
+  hei: {
+    id: 'hei',
+    name: 'Heavy Metal Evaluation Index (HEI)',
+    description: 'Sum of each metal concentration relative to its maximum admissible concentration',
+    recommended: false,
+    bands: HEI_BANDS,
+    calculate: calculateHEI,
+  },
+  cd: {
+    id: 'cd',
+    name: 'Degree of Contamination (Cd)',
+    description: 'Sum of the contamination factors exceeding the upper permissible concentration',
+    recommended: false,
+    bands: CD_BANDS,
+    calculate: calculateCd,
+  },
+  nemerow: {
+    id: 'nemerow',
+    name: 'Nemerow Pollution Index (PN)',
+    description: 'Integrated index combining the mean and maximum single-factor indices, weighting the worst metal',
+    recommended: false,
+    bands: NEMEROW_BANDS,
+    calculate: calculateNemerow,
+  },
+  mi: {
+    id: 'mi',
+    name: 'Metal Index (MI)',
+    description: 'Sum of each metal concentration over its maximum allowed concentration',
+    recommended: false,
+    bands: MI_BANDS,
+    calculate: calculateMI,
+  },
+  igeo: {
+    id: 'igeo',
+    name: 'Geo-accumulation Index (Igeo)',
+    description: 'Compares concentrations with the geochemical background on the Müller 7-class scale',
+    recommended: false,
+    bands: IGEO_BANDS,
+    calculate: calculateIgeo,
+  },
+  ef: {
+    id: 'ef',
+    name: 'Enrichment Factor (EF)',
+    description: 'Background-normalised enrichment relative to a conservative reference element such as Fe or Mn',
+    recommended: false,
+    bands: EF_BANDS,
+    calculate: calculateEF,
+  },
+  ri: {
+    id: 'ri',
+    name: 'Potential Ecological Risk Index (RI)',
+    description: 'Hakanson risk combining background contamination factors with metal toxic response factors',
+    recommended: false,
+    bands: RI_BANDS,
+    calculate: calculateRI,
+  },
+};
+
+export const INDEX_IDS = Object.keys(INDEX_REGISTRY) as IndexId[];
+
+export const INDEX_DEFINITIONS: IndexDefinition[] = INDEX_IDS.map((id) => INDEX_REGISTRY[id]);
+
+// Runs every selected index over one sample
+export function calculateIndices(
+  metals: MetalConcentrations,
+  selected: IndexId[],
+  options: CalculationOptions,
+): Partial<IndexResultMap> {
+  const results: Partial<IndexResultMap> = {};
+
+  selected.forEach(<K extends IndexId>(id: K) => {
+    const definition = INDEX_REGISTRY[id] as IndexDefinition<K>;
+    results[id] = definition.calculate(metals, options);
+  });
+
+  return results;
+}
+
+export const DEFAULT_CLASSIFICATION_SCHEMES = Object.fromEntries(
+  INDEX_IDS.map((id) => [id, INDEX_REGISTRY[id].bands]),
+) as ClassificationSchemes;
+
+// Places each computed index into a band of its classification scheme
+export function classifyIndices(
+  results: Partial<IndexResultMap>,
+  schemes: ClassificationSchemes = DEFAULT_CLASSIFICATION_SCHEMES,
+): Partial<Record<IndexId, IndexClassification>> {
+  const classes: Partial<Record<IndexId, IndexClassification>> = {};
+
+  (Object.keys(results) as IndexId[]).forEach((id) => {
+    classes[id] = classifyValue(results[id]!.value, schemes[id]);
+  });
+
+  return classes;
+}
@@ -0,0 +1,26 @@
+import { ER_BANDS, classifyValue } from "./classification";
+import type { CalculationOptions, ErMetalResult, MetalConcentrations, MetalSymbol, RiResult } from "./types";
+
+// Er = Tr × Cf with Cf = Ci / Bi against a background in the sample unit, and RI = Σ Er (Hakanson, 1980)
+export function calculateRI(
+  metals: MetalConcentrations,
+  { background, toxicResponseFactors }: CalculationOptions,
+): RiResult {
+  const results: ErMetalResult[] = [];
+
+  (Object.entries(metals) as [MetalSymbol, number][]).forEach(([metal, concentration]) => {
+    const reference = background[metal];
+    const toxicResponse = toxicResponseFactors[metal];
+
+    if (reference && toxicResponse) {
+      const cf = concentration / reference;
+      const er = toxicResponse * cf;
+      results.push({ metal, concentration, background: reference, cf, toxicResponse, er, risk: classifyValue(er, ER_BANDS) });
+    }
+  });
+
+  return {
+    value: results.reduce((acc, { er }) => acc + er, 0),
+    metals: results,
+  };
+}
@@ -0,0 +1,148 @@
+import type { ElementSymbol } from "@/lib/elements";
+
+// Any element of the catalogue; samples carry whichever subset was measured
+export type MetalSymbol = ElementSymbol;
+
+// Concentrations of the analysed metals (mg/L); metals left out, e.g. excluded
+// non-detects, are skipped by every index
+export type MetalConcentrations = Partial<Record<MetalSymbol, number>>;
+
+// Per-metal reference values; metals without an entry are skipped by the indices
+export type MetalValues = Partial<Record<MetalSymbol, number>>;
+
+export type QualityCategory = "excellent" | "good" | "moderate" | "poor" | "unsuitable";
+
+export type IndexId = "hpi" | "pli" | "cf" | "hei" | "cd" | "nemerow" | "mi" | "igeo" | "ef" | "ri";
+
+// "mohan" is the published unit-weight formulation, "legacy" the earlier Ci/Si × 100 average
+export type HpiMethod = "mohan" | "legacy";
+
+export interface CalculationOptions {
+  standards: MetalValues;
+  weights: MetalValues; // relative weights, used by the legacy HPI only
+  hpiMethod: HpiMethod;
+  idealValues: MetalValues; // Ii, ideal (desirable) concentration per metal
+  proportionalityConstant: number; // k in Wi = k / Si
+  background: MetalValues; // background Bn in the sample unit, used by Igeo, EF and RI
+  referenceElement: MetalSymbol; // normalising element for the enrichment factor
+  toxicResponseFactors: MetalValues; // Hakanson Tr per metal
+}
+
+export interface HpiMetalResult {
+  metal: MetalSymbol;
+  concentration: number;
+  standard: number;
+  ideal?: number; // Ii, only set by the Mohan formulation
+  weight: number;
+  subIndex: number; // Qi
+}
+
+export interface ContaminationFactorResult {
+  metal: MetalSymbol;
+  concentration: number;
+  standard: number;
+  cf: number;
+}
+
+export interface DegreeOfContaminationMetalResult extends ContaminationFactorResult {
+  cfi: number; // Ci / Si − 1
+}
+
+export interface IgeoMetalResult {
+  metal: MetalSymbol;
+  concentration: number;
+  background: number;
+  igeo: number;
+  mullerClass: number; // 0 (uncontaminated) to 6 (extremely contaminated)
+}
+
+export interface EfMetalResult {
+  metal: MetalSymbol;
+  concentration: number;
+  background: number;
+  ef: number;
+}
+
+export interface ErMetalResult {
+  metal: MetalSymbol;
+  concentration: number;
+  background: number;
+  cf: number; // Ci / Bi
+  toxicResponse: number; // Tr
+  er: number; // Tr × Cf
+  risk: IndexClassification;
+}
+
+export interface IndexResult<TMetal> {
+  value: number;
+  metals: TMetal[];
+}
+
+export interface HpiResult extends IndexResult<HpiMetalResult> {
+  method: HpiMethod;
+}
+
+export type PliResult = IndexResult<ContaminationFactorResult>;
+export type CfResult = IndexResult<ContaminationFactorResult>;
+export type HeiResult = IndexResult<ContaminationFactorResult>;
+export type CdResult = IndexResult<DegreeOfContaminationMetalResult>;
+export type MiResult = IndexResult<ContaminationFactorResult>;
+
+export interface NemerowResult extends IndexResult<ContaminationFactorResult> {
+  mean: number; // mean single-factor index
+  max: number; // maximum single-factor index
+}
+
+export type IgeoResult = IndexResult<IgeoMetalResult>;
+
+export type RiResult = IndexResult<ErMetalResult>;
+
+export interface EfResult extends IndexResult<EfMetalResult> {
+  referenceElement: MetalSymbol;
+}
+
+export interface IndexResultMap {
+  hpi: HpiResult;
+  pli: PliResult;
+  cf: CfResult;
+  hei: HeiResult;
+  cd: CdResult;
+  nemerow: NemerowResult;
+  mi: MiResult;
+  igeo: IgeoResult;
+  ef: EfResult;
+  ri: RiResult;
+}
+
+// Values below `upper` (exclusive) fall into the band; the last band is open-ended
+export interface ClassificationBand {
+  label: string;
+  upper: number;
+  category: QualityCategory; // colour used when the band is displayed
+}
+
+export interface IndexClassification {
+  label: string;
+  category: QualityCategory;
+}
+
+// Ordered bands used to classify one index
+export type ClassificationScheme = ClassificationBand[];
+
+export type ClassificationSchemes = Record<IndexId, ClassificationScheme>;
+
+// How the per-index classes combine into the overall quality category: the worst class
+// among all computed indices, the HPI class alone, or the worst among a chosen subset
+export type OverallCategoryRule =
+  | { type: "worst-of" }
+  | { type: "hpi-only" }
+  | { type: "custom"; indices: IndexId[] };
+
+export interface IndexDefinition<K extends IndexId = IndexId> {
+  id: K;
+  name: string;
+  description: string;
+  recommended: boolean;
+  bands: ClassificationScheme; // default classification scheme
+  calculate: (metals: MetalConcentrations, options: CalculationOptions) => IndexResultMap[K];
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./suggest";
+export * from "./templates";
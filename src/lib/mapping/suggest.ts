@@ -0,0 +1,107 @@
+import { ELEMENT_CATALOGUE, ELEMENT_SYMBOLS } from "@/lib/elements";
+import type { MetalSymbol } from "@/lib/indices";
+import { METADATA_FIELDS, MetadataField } from "@/lib/metadata";
+import { splitHeaderUnit } from "@/lib/units";
+import type { ColumnMapping, MappingTarget, SampleField } from "./types";
+
+export const SAMPLE_FIELDS: Record<SampleField, { label: string; required: boolean }> = {
+  sampleId: { label: 'Sample ID', required: false },
+  stationId: { label: 'Station / well ID', required: false },
+  latitude: { label: 'Latitude', required: false },
+  longitude: { label: 'Longitude', required: false },
+  utmZone: { label: 'UTM zone', required: false },
+  easting: { label: 'UTM easting', required: false },
+  northing: { label: 'UTM northing', required: false },
+  sampleDate: { label: 'Sample date', required: false },
+};
+
+// Normalised header spellings seen in lab and survey exports
+const FIELD_ALIASES: Record<SampleField, string[]> = {
+  sampleId: ['sampleid', 'sample', 'id', 'sampleno', 'samplenumber', 'samplecode', 'code'],
+  stationId: ['stationid', 'station', 'stationcode', 'wellid', 'wellno', 'wellcode', 'siteid', 'site', 'locationid'],
+  latitude: ['latitude', 'lat', 'latdd', 'latdeg', 'latitudedd', 'y'],
+  longitude: ['longitude', 'lon', 'long', 'lng', 'londd', 'longdd', 'londeg', 'longitudedd', 'x'],
+  utmZone: ['utmzone', 'zone', 'utm'],
+  easting: ['easting', 'utmeasting', 'utme', 'eastingm', 'east'],
+  northing: ['northing', 'utmnorthing', 'utmn', 'northingm', 'north'],
+  sampleDate: ['sampledate', 'date', 'dateofsampling', 'samplingdate', 'collectiondate', 'datesampled', 'dateofcollection'],
+};
+
+// Spelling variants of element names not covered by the catalogue
+const ELEMENT_NAME_ALIASES: Record<string, MetalSymbol> = {
+  aluminum: 'Al',
+  totalchromium: 'Cr',
+  chromiumtotal: 'Cr',
+};
+
+// Drops any unit suffix, then case, spaces and punctuation: "Arsenic (mg/l)" becomes "arsenic"
+export function normaliseHeader(header: string): string {
+  return splitHeaderUnit(header).name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function suggestTarget(header: string): MappingTarget {
+  const key = normaliseHeader(header);
+  const field = (Object.keys(FIELD_ALIASES) as SampleField[]).find(f => FIELD_ALIASES[f].includes(key));
+  if (field) return field;
+
+  const element = ELEMENT_CATALOGUE.find(({ symbol, name }) => symbol.toLowerCase() === key || name.toLowerCase() === key);
+  if (element) return element.symbol;
+
+  const metadata = (Object.keys(METADATA_FIELDS) as MetadataField[]).find(f => METADATA_FIELDS[f].aliases.includes(key));
+  if (metadata) return metadata;
+
+  // Unrecognised columns are kept as free metadata rather than dropped
+  return ELEMENT_NAME_ALIASES[key] ?? 'extra';
+}
+
+export function targetLabel(target: MappingTarget): string {
+  if (target === 'extra') return 'Other metadata';
+  if (target === 'ignore') return 'Ignore';
+  if (target in SAMPLE_FIELDS) return SAMPLE_FIELDS[target as SampleField].label;
+  if (target in METADATA_FIELDS) return METADATA_FIELDS[target as MetadataField].label;
+  return target;
+}
+
+// Suggests a target per column; when several columns match the same target, the first one wins
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<MappingTarget>();
+
+  columns.forEach(column => {
+    const target = suggestTarget(column);
+    mapping[column] = target !== 'extra' && used.has(target) ? 'extra' : target;
+    used.add(target);
+  });
+  return mapping;
+}
+
+export function isMetalTarget(target: MappingTarget): target is MetalSymbol {
+  return (ELEMENT_SYMBOLS as string[]).includes(target);
+}
+
+export function validateMapping(mapping: ColumnMapping): string[] {
+  const errors: string[] = [];
+  const targets = Object.values(mapping).filter(t => t !== 'ignore' && t !== 'extra');
+
+  (Object.keys(SAMPLE_FIELDS) as SampleField[]).forEach(field => {
+    if (SAMPLE_FIELDS[field].required && !targets.includes(field)) {
+      errors.push(`No column is mapped to ${SAMPLE_FIELDS[field].label}`);
+    }
+  });
+  // Positions come from latitude/longitude (decimal or DMS) or from UTM easting/northing
+  const hasGeographic = targets.includes('latitude') && targets.includes('longitude');
+  const hasUtm = targets.includes('easting') && targets.includes('northing');
+  if (!hasGeographic && !hasUtm) {
+    errors.push('Map latitude and longitude, or UTM easting and northing');
+  }
+  if (!targets.some(isMetalTarget)) {
+    errors.push('Map at least one column to an element');
+  }
+
+  const duplicates = targets.filter((target, i) => targets.indexOf(target) !== i);
+  Array.from(new Set(duplicates)).forEach(target => {
+    errors.push(`More than one column is mapped to ${targetLabel(target)}`);
+  });
+
+  return errors;
+}
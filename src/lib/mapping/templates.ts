@@ -0,0 +1,28 @@
+import type { MappingTemplate } from "./types";
+
+const STORAGE_KEY = 'hmpi.columnMappingTemplates';
+
+// Files with the same set of headers, in any order, share a signature and therefore a template
+export function headerSignature(columns: string[]): string {
+  return columns.map(col => col.trim()).sort().join('|');
+}
+
+export function loadMappingTemplates(): MappingTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MappingTemplate[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Replaces any template with the same signature
+export function saveMappingTemplate(template: MappingTemplate): void {
+  const templates = loadMappingTemplates().filter(t => t.signature !== template.signature);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...templates, template]));
+}
+
+export function findMappingTemplate(columns: string[]): MappingTemplate | undefined {
+  const signature = headerSignature(columns);
+  return loadMappingTemplates().find(t => t.signature === signature);
+}
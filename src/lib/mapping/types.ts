@@ -0,0 +1,31 @@
+import type { MetalSymbol } from "@/lib/indices";
+import type { MetadataField } from "@/lib/metadata";
+import type { DatumId } from "@/lib/geo";
+import type { ConcentrationUnit } from "@/lib/units";
+
+export type SampleField =
+  | "sampleId"
+  | "stationId"
+  | "latitude"
+  | "longitude"
+  | "utmZone"
+  | "easting"
+  | "northing"
+  | "sampleDate";
+
+// What a source column is read as. Element symbols map the column to that element's concentration,
+// metadata fields to a typed attribute, and "extra" keeps it as free metadata under its header.
+export type MappingTarget = SampleField | MetalSymbol | MetadataField | "extra" | "ignore";
+
+// Target per source column header
+export type ColumnMapping = Record<string, MappingTarget>;
+
+export interface MappingTemplate {
+  signature: string; // see headerSignature
+  name: string;
+  mapping: ColumnMapping;
+  units: Record<string, ConcentrationUnit>; // unit per element column
+  datum?: DatumId; // datum the coordinates were recorded in, WGS 84 when absent
+  utmZone?: string; // zone applied to UTM coordinates when the file has no zone column
+  savedAt: string;
+}
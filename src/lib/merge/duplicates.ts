@@ -0,0 +1,85 @@
+import type { WaterSample } from "@/lib/samples";
+import { METERS_PER_DEGREE_LATITUDE, distanceMeters } from "@/lib/geo";
+import type { DuplicateGroup, DuplicateOptions } from "./types";
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = { toleranceMeters: 50 };
+
+const normalise = (text: string | undefined) => text?.trim().toLowerCase() || undefined;
+
+// Samples are duplicates when they share a date and either their station or, within the
+// tolerance, their position. Samples from the same well on other dates (pre- and post-monsoon
+// rounds) are left apart. Undated samples are matched by station or position among themselves
+// only, and their groups say so. Only groups with a member at or after `from` are returned, so
+// duplicates already settled in the existing dataset are not raised again.
+export function findDuplicates(
+  samples: WaterSample[],
+  { toleranceMeters }: DuplicateOptions,
+  from = 0
+): DuplicateGroup[] {
+  const parent = samples.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const join = (a: number, b: number) => {
+    const [ra, rb] = [root(a), root(b)];
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  // Undated samples share the `undefined` bucket
+  const byDate = new Map<string | undefined, number[]>();
+  samples.forEach((sample, index) => {
+    const date = sample.sampleDate?.trim() || undefined;
+    if (byDate.has(date)) byDate.get(date).push(index);
+    else byDate.set(date, [index]);
+  });
+
+  const maxLatitudeGap = toleranceMeters / METERS_PER_DEGREE_LATITUDE;
+  byDate.forEach(indices => {
+    const byStation = new Map<string, number>();
+    indices.forEach(index => {
+      const station = normalise(samples[index].stationId);
+      if (!station) return;
+      if (byStation.has(station)) join(byStation.get(station), index);
+      else byStation.set(station, index);
+    });
+
+    // Sweep in latitude order so only nearby candidates are measured
+    if (toleranceMeters <= 0) return;
+    const located = indices
+      .filter(index => !isNaN(samples[index].latitude) && !isNaN(samples[index].longitude))
+      .sort((a, b) => samples[a].latitude - samples[b].latitude);
+    located.forEach((a, i) => {
+      for (let j = i + 1; j < located.length; j++) {
+        const b = located[j];
+        if (samples[b].latitude - samples[a].latitude > maxLatitudeGap) break;
+        if (distanceMeters(samples[a], samples[b]) <= toleranceMeters) join(a, b);
+      }
+    });
+  });
+
+  const groups = new Map<number, number[]>();
+  samples.forEach((_, index) => {
+    const r = root(index);
+    if (groups.has(r)) groups.get(r).push(index);
+    else groups.set(r, [index]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1 && members[members.length - 1] >= from)
+    .map(members => {
+      const station = normalise(samples[members[0]].stationId);
+      const sameStation = station !== undefined && members.every(index => normalise(samples[index].stationId) === station);
+      const undated = !samples[members[0]].sampleDate?.trim();
+      return {
+        key: members.map(index => samples[index].id).join('|'),
+        reason: undated
+          ? (sameStation ? 'station-undated' : 'nearby-undated')
+          : (sameStation ? 'station-date' : 'nearby'),
+        members,
+      };
+    });
+}
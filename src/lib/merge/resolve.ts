@@ -0,0 +1,94 @@
+import type { WaterSample } from "@/lib/samples";
+import type { CensoredValues } from "@/lib/bdl";
+import type { MetalConcentrations, MetalSymbol } from "@/lib/indices";
+import type { DuplicateGroup, MergeStrategy, SampleSource } from "./types";
+
+export const MERGE_STRATEGIES: Record<MergeStrategy, { label: string; description: string }> = {
+  'keep-first': { label: 'Keep first', description: 'Keep the sample already in the dataset, or the first row of the file' },
+  'keep-latest': { label: 'Keep latest', description: 'Keep the sample imported last' },
+  average: { label: 'Average replicates', description: 'Replace the group with one sample holding the mean of each element' },
+  'keep-all': { label: 'Keep all', description: 'Not duplicates; keep every sample' },
+};
+
+export function tagSource(samples: WaterSample[], source: SampleSource): WaterSample[] {
+  return samples.map(sample => ({ ...sample, source }));
+}
+
+// Incoming IDs already used in the dataset get the batch appended, so every sample stays addressable
+export function uniqueIds(existing: WaterSample[], incoming: WaterSample[], batch: string): WaterSample[] {
+  const used = new Set(existing.map(sample => sample.id));
+  return incoming.map(sample => {
+    if (!used.has(sample.id)) {
+      used.add(sample.id);
+      return sample;
+    }
+    let id = `${sample.id} (${batch})`;
+    for (let n = 2; used.has(id); n++) id = `${sample.id} (${batch} ${n})`;
+    used.add(id);
+    return { ...sample, id };
+  });
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// One sample standing for a group of replicates. Each element is the mean of the replicates
+// that detected it; an element below detection in every replicate stays censored at the lowest
+// known detection limit. Position is averaged; ID, date and metadata come from the first member.
+export function averageSamples(members: WaterSample[]): WaterSample {
+  const [first] = members;
+  const metals: MetalConcentrations = {};
+  const censored: CensoredValues = {};
+  const elements = new Set(members.flatMap(sample => Object.keys(sample.metals) as MetalSymbol[]));
+
+  elements.forEach(metal => {
+    const measured = members.filter(sample => sample.metals[metal] !== undefined);
+    const detected = measured.filter(sample => !sample.censored?.[metal]);
+    if (detected.length > 0) {
+      metals[metal] = mean(detected.map(sample => sample.metals[metal]));
+      return;
+    }
+    const limits = measured.map(sample => sample.censored[metal]).filter(value => value.detectionLimit !== undefined);
+    const lowest = limits.sort((a, b) => a.detectionLimit - b.detectionLimit)[0] ?? measured[0].censored[metal];
+    metals[metal] = lowest.detectionLimit ?? 0;
+    censored[metal] = lowest;
+  });
+
+  return {
+    ...first,
+    latitude: mean(members.map(sample => sample.latitude)),
+    longitude: mean(members.map(sample => sample.longitude)),
+    metals,
+    censored: Object.keys(censored).length > 0 ? censored : undefined,
+    mergedFrom: members.flatMap(sample => sample.mergedFrom ?? [sample.id]),
+  };
+}
+
+function resolveGroup(members: WaterSample[], strategy: MergeStrategy): WaterSample[] {
+  switch (strategy) {
+    case 'keep-first':
+      return [members[0]];
+    case 'keep-latest':
+      return [members[members.length - 1]];
+    case 'average':
+      return [averageSamples(members)];
+    case 'keep-all':
+      return members;
+  }
+}
+
+// Applies each group's strategy; a resolved group takes the place of its first member
+export function resolveDuplicates(
+  samples: WaterSample[],
+  groups: DuplicateGroup[],
+  strategyOf: (group: DuplicateGroup) => MergeStrategy
+): WaterSample[] {
+  const groupAt = new Map<number, DuplicateGroup>();
+  groups.forEach(group => group.members.forEach(index => groupAt.set(index, group)));
+
+  return samples.flatMap((sample, index) => {
+    const group = groupAt.get(index);
+    if (!group) return [sample];
+    if (group.members[0] !== index) return [];
+    return resolveGroup(group.members.map(member => samples[member]), strategyOf(group));
+  });
+}
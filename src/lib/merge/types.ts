@@ -0,0 +1,23 @@
+// File and batch a sample was imported from
+export interface SampleSource {
+  fileName?: string; // absent for samples entered by hand
+  batch: string; // label given at import, e.g. "Pre-monsoon 2024"; the file name by default
+  importedAt: string; // ISO timestamp of the import
+}
+
+// Why samples were taken to be the same: the same station or positions within the tolerance,
+// on the same date or, for samples without a date, among other undated samples
+export type DuplicateReason = "station-date" | "nearby" | "station-undated" | "nearby-undated";
+
+export interface DuplicateOptions {
+  toleranceMeters: number;
+}
+
+export interface DuplicateGroup {
+  key: string; // stable for the same members, used to hold the chosen strategy
+  reason: DuplicateReason;
+  members: number[]; // indices into the combined list, in list order
+}
+
+// keep-latest keeps the sample imported last; keep-all treats the group as distinct samples
+export type MergeStrategy = "keep-first" | "keep-latest" | "average" | "keep-all";
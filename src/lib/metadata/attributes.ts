@@ -0,0 +1,61 @@
+import type { SampleSource } from "@/lib/merge";
+import { metadataKeys, metadataLabel, metadataValue } from "./fields";
+import type { MetadataKey, SampleMetadata } from "./types";
+
+// Station ID and import batch sit beside the metadata keys so samples can be grouped per well
+// or compared between sampling rounds
+export type SampleAttribute = MetadataKey | "stationId" | "batch";
+
+export interface SampleFilter {
+  key?: SampleAttribute;
+  value?: string;
+}
+
+interface Described {
+  stationId?: string;
+  metadata?: SampleMetadata;
+  source?: SampleSource;
+}
+
+export function attributeLabel(key: SampleAttribute): string {
+  if (key === 'stationId') return 'Station';
+  return key === 'batch' ? 'Batch' : metadataLabel(key);
+}
+
+export function attributeValue(sample: Described, key: SampleAttribute): string | undefined {
+  if (key === 'stationId') return sample.stationId;
+  return key === 'batch' ? sample.source?.batch : metadataValue(sample.metadata, key);
+}
+
+export function sampleAttributes(samples: Described[]): SampleAttribute[] {
+  return [
+    ...(samples.some(s => s.stationId) ? ['stationId' as const] : []),
+    // Only worth offering once the dataset spans more than one batch
+    ...(new Set(samples.map(s => s.source?.batch)).size > 1 ? ['batch' as const] : []),
+    ...metadataKeys(samples.map(s => s.metadata)),
+  ];
+}
+
+// Distinct values of an attribute, sorted naturally; samples without a value are left out
+export function attributeValues(samples: Described[], key: SampleAttribute): string[] {
+  const values = new Set<string>();
+  samples.forEach(sample => {
+    const value = attributeValue(sample, key);
+    if (value !== undefined) values.add(value);
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+export function applySampleFilter<T extends Described>(samples: T[], { key, value }: SampleFilter): T[] {
+  return key && value !== undefined ? samples.filter(s => attributeValue(s, key) === value) : samples;
+}
+
+// Samples per attribute value, in value order; samples without a value form a trailing "—" group
+export function groupSamples<T extends Described>(samples: T[], key: SampleAttribute): { value: string; samples: T[] }[] {
+  const groups = attributeValues(samples, key).map(value => ({
+    value,
+    samples: samples.filter(s => attributeValue(s, key) === value),
+  }));
+  const ungrouped = samples.filter(s => attributeValue(s, key) === undefined);
+  return ungrouped.length > 0 ? [...groups, { value: '—', samples: ungrouped }] : groups;
+}
@@ -0,0 +1,35 @@
+import type { MetadataField, MetadataKey, SampleMetadata } from "./types";
+
+export const METADATA_FIELDS: Record<MetadataField, { label: string; aliases: string[]; numeric?: boolean }> = {
+  depth: { label: 'Depth (m)', aliases: ['depth', 'welldepth', 'depthm', 'depthmbgl', 'mbgl'], numeric: true },
+  wellType: { label: 'Well type', aliases: ['welltype', 'typeofwell', 'structure', 'wellstructure'] },
+  sourceType: { label: 'Source type', aliases: ['sourcetype', 'source', 'typeofsource', 'watersource'] },
+  aquiferType: { label: 'Aquifer type', aliases: ['aquifertype', 'aquifer', 'formation', 'lithology'] },
+  village: { label: 'Village', aliases: ['village', 'locality', 'habitation', 'town'] },
+  block: { label: 'Block', aliases: ['block', 'tehsil', 'taluk', 'taluka', 'mandal'] },
+  district: { label: 'District', aliases: ['district', 'dist'] },
+  state: { label: 'State', aliases: ['state', 'province'] },
+};
+
+export function metadataLabel(key: MetadataKey): string {
+  return key.startsWith('extra:') ? key.slice('extra:'.length) : METADATA_FIELDS[key as MetadataField].label;
+}
+
+export function metadataValue(metadata: SampleMetadata | undefined, key: MetadataKey): string | undefined {
+  if (!metadata) return undefined;
+  const value = key.startsWith('extra:')
+    ? metadata.extra?.[key.slice('extra:'.length)]
+    : metadata[key as MetadataField];
+  return value === undefined || value === '' ? undefined : String(value);
+}
+
+// Keys carrying a value in at least one sample: known fields in catalogue order, then kept columns
+export function metadataKeys(samples: (SampleMetadata | undefined)[]): MetadataKey[] {
+  const known = (Object.keys(METADATA_FIELDS) as MetadataField[]).filter(field =>
+    samples.some(metadata => metadataValue(metadata, field) !== undefined)
+  );
+  const extra = new Set<string>();
+  samples.forEach(metadata => Object.keys(metadata?.extra ?? {}).forEach(header => extra.add(header)));
+
+  return [...known, ...Array.from(extra).map(header => `extra:${header}` as MetadataKey)];
+}
@@ -0,0 +1,25 @@
+export type MetadataField =
+  | "depth"
+  | "wellType"
+  | "sourceType"
+  | "aquiferType"
+  | "village"
+  | "block"
+  | "district"
+  | "state";
+
+// Descriptive attributes of a sample that take no part in the calculations
+export interface SampleMetadata {
+  depth?: number; // m below ground level
+  wellType?: string; // e.g. dug well, bore well, hand pump
+  sourceType?: string; // e.g. groundwater, spring, tap
+  aquiferType?: string;
+  village?: string;
+  block?: string; // tehsil / mandal / block
+  district?: string;
+  state?: string;
+  extra?: Record<string, string>; // any other kept column, keyed by its header
+}
+
+// A known field, or "extra:<header>" for a kept column
+export type MetadataKey = MetadataField | `extra:${string}`;
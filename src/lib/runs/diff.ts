@@ -0,0 +1,54 @@
+import { runParameters } from "./record";
+import type { CategoryChange, ParameterComparison, RunDiff, RunRecord, RunSampleResult } from "./types";
+
+// Parameters of two runs side by side; rows present in only one run count as changed
+export function compareParameters(base: RunRecord, other: RunRecord): ParameterComparison[] {
+  const baseRows = runParameters(base);
+  const otherRows = runParameters(other);
+  const labels = [...baseRows.map(row => row.label), ...otherRows.map(row => row.label)]
+    .filter((label, index, all) => all.indexOf(label) === index);
+
+  return labels
+    .filter(label => label !== 'Calculated')
+    .map(label => {
+      const baseValue = baseRows.find(row => row.label === label)?.value;
+      const otherValue = otherRows.find(row => row.label === label)?.value;
+      return { label, base: baseValue, other: otherValue, changed: baseValue !== otherValue };
+    });
+}
+
+// Key each result is matched on: its position when both runs used the same data, otherwise
+// its ID and how many earlier results share it, so duplicate IDs pair up in order
+function matchKeys(results: RunSampleResult[], byPosition: boolean): string[] {
+  const seen = new Map<string, number>();
+  return results.map((result, position) => {
+    if (byPosition) return String(position);
+    const occurrence = seen.get(result.id) ?? 0;
+    seen.set(result.id, occurrence + 1);
+    return `${result.id}\u0000${occurrence}`;
+  });
+}
+
+// Matches the samples of two runs and lists those whose overall category differs
+export function diffRuns(base: RunRecord, other: RunRecord): RunDiff {
+  const byPosition = base.datasetHash === other.datasetHash;
+  const otherKeys = matchKeys(other.results, byPosition);
+  const otherByKey = new Map(otherKeys.map((key, position) => [key, other.results[position]]));
+  const changed: CategoryChange[] = [];
+  let unchanged = 0;
+  let matched = 0;
+
+  matchKeys(base.results, byPosition).forEach((key, position) => {
+    const from = base.results[position];
+    const to = otherByKey.get(key);
+    if (!to) return;
+    matched++;
+    if (from.category === to.category) {
+      unchanged++;
+    } else {
+      changed.push({ id: from.id, position, from: from.category, to: to.category, hpiFrom: from.hpi, hpiTo: to.hpi });
+    }
+  });
+
+  return { changed, unchanged, unmatched: base.results.length + other.results.length - 2 * matched };
+}
@@ -0,0 +1,54 @@
+import { BDL_POLICIES } from "@/lib/bdl";
+import { HPI_METHODS, INDEX_REGISTRY, MetalValues, describeCategoryRule } from "@/lib/indices";
+import { forEachSample } from "@/lib/store";
+import type { ParameterRow, RunDraft, RunRecord, RunSampleResult } from "./types";
+
+export const APP_VERSION = __APP_VERSION__;
+
+export const MAX_RUNS = 10;
+
+export function recordRun(history: RunRecord[], { samples, ...draft }: RunDraft): RunRecord[] {
+  const version = (history[history.length - 1]?.version ?? 0) + 1;
+  const results: RunSampleResult[] = [];
+  forEachSample(samples, sample => results.push({
+    id: sample.id,
+    category: sample.hmpiResults?.qualityCategory,
+    hpi: sample.hmpiResults?.hpi,
+  }));
+  return [...history, { ...draft, id: `run-${version}`, version, results }].slice(-MAX_RUNS);
+}
+
+export const shortHash = (hash: string) => hash.slice(0, 12);
+
+export const runLabel = (run: RunRecord) => `Run ${run.version} · ${new Date(run.createdAt).toLocaleString()}`;
+
+const formatValues = (values: MetalValues) =>
+  Object.entries(values).map(([metal, value]) => `${metal} ${value}`).join(', ') || 'none';
+
+// Everything that decided a run's results, as label/value pairs in a fixed order
+export function runParameters({ settings, monteCarlo, results, failures, datasetHash, appVersion, createdAt }: RunRecord): ParameterRow[] {
+  const { indices, options, bdlPolicy, categoryRule, standard, background, healthRiskParameters } = settings;
+  const rows: ParameterRow[] = [
+    { label: 'Calculated', value: new Date(createdAt).toLocaleString() },
+    { label: 'Indices', value: indices.map(id => INDEX_REGISTRY[id].name).join(', ') },
+    { label: 'Standard', value: `${standard.name} (${standard.version})${standard.custom ? ', custom' : ''}` },
+    { label: 'Limits', value: formatValues(options.standards) },
+  ];
+  if (indices.includes('hpi')) {
+    rows.push({ label: 'HPI method', value: HPI_METHODS[options.hpiMethod].name });
+    rows.push(options.hpiMethod === 'legacy'
+      ? { label: 'HPI weights', value: formatValues(options.weights) }
+      : { label: 'HPI ideal values', value: `${formatValues(options.idealValues)}; k = ${options.proportionalityConstant}` });
+  }
+  if (background) rows.push({ label: 'Background', value: `${background.name}${background.custom ? ', custom' : ''}` });
+  rows.push(
+    { label: 'Non-detects', value: BDL_POLICIES[bdlPolicy].name },
+    { label: 'Quality category', value: describeCategoryRule(categoryRule) },
+    { label: 'Health risk', value: healthRiskParameters ? 'Included' : 'Not included' },
+    { label: 'Monte Carlo', value: monteCarlo ? `${monteCarlo.iterations} iterations, seed ${monteCarlo.seed}` : 'Not run' },
+    { label: 'Samples', value: `${results.length - failures.length} calculated, ${failures.length} failed` },
+    { label: 'Dataset', value: shortHash(datasetHash) },
+    { label: 'App version', value: appVersion },
+  );
+  return rows;
+}
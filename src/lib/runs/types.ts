@@ -0,0 +1,57 @@
+import type { CalculationSettings, SampleFailure } from "@/lib/calculation";
+import type { QualityCategory } from "@/lib/indices";
+import type { SampleStore } from "@/lib/store";
+import type { MonteCarloConfig } from "@/lib/uncertainty";
+
+// One click of "Calculate Indices": what was asked for, what it ran on and what came out
+export interface RunRecord {
+  id: string;
+  version: number; // 1 for the first run of the session, counting up
+  createdAt: string; // ISO timestamp
+  appVersion: string;
+  datasetHash: string; // SHA-256 of the input measurements
+  settings: CalculationSettings;
+  monteCarlo?: MonteCarloConfig; // set when the simulation ran to completion
+  results: RunSampleResult[]; // one per input sample, in dataset order
+  failures: SampleFailure[];
+}
+
+// What the history keeps of every sample, enough to diff two runs without the dataset
+export interface RunSampleResult {
+  id: string;
+  category?: QualityCategory; // absent when the sample could not be calculated
+  hpi?: number; // absent when HPI was not selected
+}
+
+// A run as handed over by the calculation step, before it is numbered; the history keeps only
+// the per-sample summary of its results
+export type RunDraft = Omit<RunRecord, "id" | "version" | "results"> & { samples: SampleStore };
+
+export interface ParameterRow {
+  label: string;
+  value: string;
+}
+
+export interface ParameterComparison {
+  label: string;
+  base?: string;
+  other?: string;
+  changed: boolean;
+}
+
+// A sample whose overall category differs between two runs; a missing category means the
+// sample was not calculated in that run
+export interface CategoryChange {
+  id: string;
+  position: number; // 0-based position in the base run, unique within a diff
+  from?: QualityCategory;
+  to?: QualityCategory;
+  hpiFrom?: number; // absent when HPI was not selected
+  hpiTo?: number;
+}
+
+export interface RunDiff {
+  changed: CategoryChange[];
+  unchanged: number;
+  unmatched: number; // samples in only one of the two datasets
+}
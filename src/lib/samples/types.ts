@@ -0,0 +1,61 @@
+import type { BackgroundReference } from "@/lib/background";
+import type { BdlPolicy, CensoredValues } from "@/lib/bdl";
+import type { SampleEdits } from "@/lib/grid";
+import type { HealthRiskResult } from "@/lib/health-risk";
+import type { SampleSource } from "@/lib/merge";
+import type { SampleMetadata } from "@/lib/metadata";
+import type { StandardReference } from "@/lib/standards";
+import type { ReportedUnits } from "@/lib/units";
+import type { UncertaintyResult } from "@/lib/uncertainty";
+import type {
+  HpiMethod,
+  IndexClassification,
+  IndexId,
+  IndexResultMap,
+  MetalConcentrations,
+  OverallCategoryRule,
+  QualityCategory,
+} from "@/lib/indices";
+
+// Indices, classes and provenance of one calculated sample
+export interface HMPIResults {
+  // Each index value is absent when that index was not selected
+  hpi?: number;
+  hpiMethod?: HpiMethod; // formulation that produced hpi
+  pli?: number;
+  cf?: number;
+  hei?: number;
+  cd?: number;
+  nemerow?: number;
+  mi?: number;
+  igeo?: number; // highest per-metal Igeo
+  ef?: number; // highest per-metal enrichment factor
+  ri?: number; // Hakanson potential ecological risk index
+  qualityCategory: QualityCategory; // overall category, combined from `classes` by `categoryRule`
+  categoryRule: OverallCategoryRule;
+  bdlPolicy: BdlPolicy; // substitution applied to censored values in this run
+  classes: Partial<Record<IndexId, IndexClassification>>; // class of each computed index under its own scheme
+  standard: StandardReference; // standard set and version the indices were computed against
+  background?: BackgroundReference; // background used by Igeo, EF and RI
+  details: Partial<IndexResultMap>; // per-metal intermediate results of each computed index
+}
+
+export interface WaterSample {
+  id: string;
+  stationId?: string; // well or station the sample was drawn from, as given in the file
+  latitude: number;
+  longitude: number;
+  sampleDate?: string; // as written in the file; absent when no date was given
+  metadata?: SampleMetadata;
+  metals: MetalConcentrations; // measured elements only (mg/L), any subset of the element catalogue
+  censored?: CensoredValues; // below-detection-limit values; `metals` holds their detection limit (0 if unknown)
+  reportedUnits?: ReportedUnits; // units the lab reported in, before conversion to mg/L
+  edits?: SampleEdits; // cells corrected by hand after upload, with the value each replaced
+  addedManually?: boolean; // row entered by hand rather than read from a file
+  source?: SampleSource; // file and batch the sample was imported from
+  mergedFrom?: string[]; // IDs of the replicates averaged into this sample
+  hmpiResults?: HMPIResults;
+  healthRisk?: HealthRiskResult;
+  uncertainty?: UncertaintyResult; // Monte Carlo summary, present when the simulation ran
+  calculationError?: string; // why the last run could not calculate this sample
+}
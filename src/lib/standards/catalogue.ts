@@ -0,0 +1,131 @@
+import type { MetalValues } from "@/lib/indices";
+import type { StandardReference, StandardSet } from "./types";
+
+// Co, Sb and U have no limit in the 2012 revision and are excluded
+export const BIS_10500: StandardSet = {
+  id: 'bis-10500',
+  name: 'BIS IS 10500',
+  version: 'IS 10500:2012',
+  source: 'Bureau of Indian Standards, Drinking Water — Specification (Second Revision)',
+  limits: {
+    As: { acceptable: 0.01, permissible: 0.05 },
+    Cd: { acceptable: 0.003, permissible: 0.003 },
+    Cr: { acceptable: 0.05, permissible: 0.05 },
+    Cu: { acceptable: 0.05, permissible: 1.5 },
+    Fe: { acceptable: 0.3, permissible: 0.3 },
+    Mn: { acceptable: 0.1, permissible: 0.3 },
+    Ni: { acceptable: 0.02, permissible: 0.02 },
+    Pb: { acceptable: 0.01, permissible: 0.01 },
+    Zn: { acceptable: 5, permissible: 15 },
+    Hg: { acceptable: 0.001, permissible: 0.001 },
+    Se: { acceptable: 0.01, permissible: 0.01 },
+    Al: { acceptable: 0.03, permissible: 0.2 },
+    Ba: { acceptable: 0.7, permissible: 0.7 },
+    Mo: { acceptable: 0.07, permissible: 0.07 },
+    B: { acceptable: 0.5, permissible: 1.0 },
+  },
+};
+
+// Fe and Zn have no health-based guideline; their acceptability thresholds are used instead.
+// Hg is the inorganic mercury guideline; Al, Co and Mo have no guideline value and are excluded.
+export const WHO_GDWQ: StandardSet = {
+  id: 'who-gdwq',
+  name: 'WHO Guidelines',
+  version: 'GDWQ 4th ed. + 1st/2nd addenda (2022)',
+  source: 'World Health Organization, Guidelines for Drinking-water Quality',
+  limits: {
+    As: { permissible: 0.01 },
+    Cd: { permissible: 0.003 },
+    Cr: { permissible: 0.05 },
+    Cu: { permissible: 2.0 },
+    Fe: { permissible: 0.3 },
+    Mn: { permissible: 0.08 },
+    Ni: { permissible: 0.07 },
+    Pb: { permissible: 0.01 },
+    Zn: { permissible: 3.0 },
+    Hg: { permissible: 0.006 },
+    Se: { permissible: 0.04 },
+    Ba: { permissible: 1.3 },
+    Sb: { permissible: 0.02 },
+    U: { permissible: 0.03 },
+    B: { permissible: 2.4 },
+  },
+};
+
+// Cu and Pb are treatment-technique action levels; Fe, Mn and Zn are secondary standards.
+// Al is the upper bound of the secondary standard range. Ni, Co, Mo and B have no current MCL and are excluded.
+export const USEPA_DWS: StandardSet = {
+  id: 'usepa',
+  name: 'USEPA Drinking Water Standards',
+  version: 'NPDWR/NSDWR 2018',
+  source: 'US Environmental Protection Agency, 2018 Edition of the Drinking Water Standards and Health Advisories',
+  limits: {
+    As: { permissible: 0.01 },
+    Cd: { permissible: 0.005 },
+    Cr: { permissible: 0.1 },
+    Cu: { permissible: 1.3 },
+    Fe: { permissible: 0.3 },
+    Mn: { permissible: 0.05 },
+    Pb: { permissible: 0.015 },
+    Zn: { permissible: 5.0 },
+    Hg: { permissible: 0.002 },
+    Se: { permissible: 0.05 },
+    Al: { permissible: 0.2 },
+    Ba: { permissible: 2.0 },
+    Sb: { permissible: 0.006 },
+    U: { permissible: 0.03 },
+  },
+};
+
+// Fe, Mn and Al are indicator parameters; Zn, Co, Ba and Mo have no parametric value and are excluded
+export const EU_DWD: StandardSet = {
+  id: 'eu-dwd',
+  name: 'EU Drinking Water Directive',
+  version: 'Directive (EU) 2020/2184',
+  source: 'Directive (EU) 2020/2184 on the quality of water intended for human consumption, Annex I',
+  limits: {
+    As: { permissible: 0.01 },
+    Cd: { permissible: 0.005 },
+    Cr: { permissible: 0.05 },
+    Cu: { permissible: 2.0 },
+    Fe: { permissible: 0.2 },
+    Mn: { permissible: 0.05 },
+    Ni: { permissible: 0.02 },
+    Pb: { permissible: 0.01 },
+    Hg: { permissible: 0.001 },
+    Se: { permissible: 0.02 },
+    Al: { permissible: 0.2 },
+    Sb: { permissible: 0.01 },
+    U: { permissible: 0.03 },
+    B: { permissible: 1.5 },
+  },
+};
+
+export const STANDARD_CATALOGUE: StandardSet[] = [WHO_GDWQ, BIS_10500, USEPA_DWS, EU_DWD];
+
+export const DEFAULT_STANDARD_SET = WHO_GDWQ;
+
+// Permissible limits, used as the reference value Si by every index
+export function referenceValues(set: StandardSet): MetalValues {
+  const values: MetalValues = {};
+  (Object.keys(set.limits) as (keyof StandardSet["limits"])[]).forEach((metal) => {
+    values[metal] = set.limits[metal]!.permissible;
+  });
+  return values;
+}
+
+export function standardReference({ id, name, version, custom, limits }: StandardSet): StandardReference {
+  return { id, name, version, custom, limits };
+}
+
+export function cloneStandardSet(set: StandardSet, name: string): StandardSet {
+  return {
+    ...set,
+    id: `custom-${Date.now()}`,
+    name,
+    version: `${set.version} (custom)`,
+    limits: Object.fromEntries(Object.entries(set.limits).map(([metal, limit]) => [metal, { ...limit }])),
+    custom: true,
+    basedOn: set.custom ? set.basedOn : set.id,
+  };
+}
@@ -0,0 +1,16 @@
+import type { StandardSet } from "./types";
+
+const STORAGE_KEY = 'hmpi.customStandardProfiles';
+
+export function loadCustomProfiles(): StandardSet[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StandardSet[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: StandardSet[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
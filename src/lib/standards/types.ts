@@ -0,0 +1,25 @@
+import type { MetalSymbol } from "@/lib/indices";
+
+export interface StandardLimit {
+  acceptable?: number; // desirable limit, where the standard distinguishes one (mg/L)
+  permissible: number; // maximum permissible limit in the absence of an alternate source (mg/L)
+}
+
+export interface StandardSet {
+  id: string;
+  name: string;
+  version: string;
+  source: string;
+  limits: Partial<Record<MetalSymbol, StandardLimit>>;
+  custom?: boolean;
+  basedOn?: string; // id of the catalogue set a custom profile was cloned from
+}
+
+// Identifies the standard a result was computed against
+export interface StandardReference {
+  id: string;
+  name: string;
+  version: string;
+  custom?: boolean;
+  limits: StandardSet["limits"]; // as in force for the run, so later edits to a custom profile do not change it
+}
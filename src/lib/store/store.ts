@@ -0,0 +1,83 @@
+import type { WaterSample } from "@/lib/samples";
+import { ELEMENT_SYMBOLS, ElementSymbol } from "@/lib/elements";
+import type { SampleStore } from "./types";
+
+export const STORE_CHUNK_SIZE = 5000;
+
+export const EMPTY_STORE: SampleStore = { chunks: [], size: 0 };
+
+export function createSampleStore(samples: WaterSample[] = []): SampleStore {
+  return appendSamples(EMPTY_STORE, samples);
+}
+
+// Only the last, partly filled chunk is copied; full chunks are shared with the old store
+export function appendSamples(store: SampleStore, samples: WaterSample[]): SampleStore {
+  if (samples.length === 0) return store;
+  const chunks = store.chunks.slice();
+  let offset = 0;
+  while (offset < samples.length) {
+    const last = chunks[chunks.length - 1];
+    const open = last && last.length < STORE_CHUNK_SIZE;
+    const taken = samples.slice(offset, offset + STORE_CHUNK_SIZE - (open ? last.length : 0));
+    if (open) chunks[chunks.length - 1] = last.concat(taken);
+    else chunks.push(taken);
+    offset += taken.length;
+  }
+  return { chunks, size: store.size + samples.length };
+}
+
+export function sampleAt(store: SampleStore, index: number): WaterSample | undefined {
+  return store.chunks[Math.floor(index / STORE_CHUNK_SIZE)]?.[index % STORE_CHUNK_SIZE];
+}
+
+// Samples from `start` up to, not including, `end`, e.g. one page of a table
+export function storeSlice(store: SampleStore, start: number, end = store.size): WaterSample[] {
+  const slice: WaterSample[] = [];
+  for (let index = Math.max(0, start); index < Math.min(end, store.size); index++) slice.push(sampleAt(store, index));
+  return slice;
+}
+
+export function forEachSample(store: SampleStore, callback: (sample: WaterSample, index: number) => void): void {
+  store.chunks.forEach((chunk, c) => chunk.forEach((sample, i) => callback(sample, c * STORE_CHUNK_SIZE + i)));
+}
+
+export function someSample(store: SampleStore, predicate: (sample: WaterSample) => boolean): boolean {
+  return store.chunks.some(chunk => chunk.some(predicate));
+}
+
+export function mapSamples(store: SampleStore, callback: (sample: WaterSample, index: number) => WaterSample): SampleStore {
+  return {
+    chunks: store.chunks.map((chunk, c) => chunk.map((sample, i) => callback(sample, c * STORE_CHUNK_SIZE + i))),
+    size: store.size,
+  };
+}
+
+// Copies the one chunk holding the sample
+export function replaceSample(store: SampleStore, index: number, sample: WaterSample): SampleStore {
+  const c = Math.floor(index / STORE_CHUNK_SIZE);
+  const chunks = store.chunks.slice();
+  chunks[c] = chunks[c].slice();
+  chunks[c][index % STORE_CHUNK_SIZE] = sample;
+  return { chunks, size: store.size };
+}
+
+// Chunks before the removed sample are shared; the ones after it are refilled
+export function removeSample(store: SampleStore, index: number): SampleStore {
+  const c = Math.floor(index / STORE_CHUNK_SIZE);
+  const kept = { chunks: store.chunks.slice(0, c), size: c * STORE_CHUNK_SIZE };
+  return appendSamples(kept, [
+    ...store.chunks[c].filter((_, i) => i !== index % STORE_CHUNK_SIZE),
+    ...store.chunks.slice(c + 1).flat(),
+  ]);
+}
+
+// Every sample in one list, for the few steps that need them all at once, such as duplicate
+// search when merging. The list holds the stored samples, not copies.
+export function storeSamples(store: SampleStore): WaterSample[] {
+  return store.chunks.flat();
+}
+
+// Elements measured in at least one sample, in catalogue order
+export function storeElements(store: SampleStore): ElementSymbol[] {
+  return ELEMENT_SYMBOLS.filter(symbol => someSample(store, sample => sample.metals[symbol] !== undefined));
+}
@@ -0,0 +1,9 @@
+import type { WaterSample } from "@/lib/samples";
+
+// Samples held in chunks of STORE_CHUNK_SIZE; every chunk is full but the last. A store is
+// never changed in place: appending or editing returns a new store that shares every chunk it
+// did not touch, so state updates and worker hand-offs never copy the whole dataset.
+export interface SampleStore {
+  chunks: WaterSample[][];
+  size: number;
+}
@@ -0,0 +1,15 @@
+import type { MonteCarloConfig } from "./types";
+
+export const MAX_MONTE_CARLO_ITERATIONS = 100000;
+
+// Lognormal concentrations with 20% CV; exposure factors follow inter-individual variability
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  iterations: 5000,
+  seed: 12345,
+  concentration: { type: 'lognormal', spread: 0.2 },
+  exposure: {
+    ingestionRate: { type: 'lognormal', spread: 0.3 },
+    bodyWeight: { type: 'normal', spread: 0.15 },
+    exposureDuration: { type: 'triangular', spread: 0.5 },
+  },
+};
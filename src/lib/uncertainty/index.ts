@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./config";
+export * from "./random";
+export * from "./simulate";
+export * from "./run";
@@ -0,0 +1,20 @@
+import { simulateSample } from "./simulate";
+import type { MonteCarloRequest, MonteCarloResponse, UncertaintyResult } from "./types";
+
+const post = (message: MonteCarloResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { samples, config, options, healthRiskParameters } = event.data;
+  // By position rather than ID, as IDs need not be unique
+  const results: UncertaintyResult[] = [];
+
+  try {
+    samples.forEach((sample, index) => {
+      results.push(simulateSample(sample.metals, sample.id, config, options, healthRiskParameters));
+      post({ type: 'progress', completed: index + 1 });
+    });
+    post({ type: 'result', results });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
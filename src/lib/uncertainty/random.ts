@@ -0,0 +1,48 @@
+import type { DistributionSpec } from "./types";
+
+export type RandomSource = () => number;
+
+// Mulberry32: small, fast seeded PRNG returning uniform values in [0, 1)
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box–Muller transform
+function standardNormal(random: RandomSource): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Draws a value from `spec` centred on `mean`. Normal draws are truncated at zero since
+// concentrations and exposure factors cannot be negative.
+export function sampleDistribution(mean: number, spec: DistributionSpec, random: RandomSource): number {
+  if (mean <= 0 || spec.spread <= 0) return mean;
+
+  switch (spec.type) {
+    case 'normal':
+      return Math.max(0, mean + mean * spec.spread * standardNormal(random));
+    case 'lognormal': {
+      // Parameters chosen so the distribution has the given arithmetic mean and CV
+      const sigma2 = Math.log(1 + spec.spread * spec.spread);
+      const mu = Math.log(mean) - sigma2 / 2;
+      return Math.exp(mu + Math.sqrt(sigma2) * standardNormal(random));
+    }
+    case 'triangular': {
+      const min = Math.max(0, mean * (1 - spec.spread));
+      const max = mean * (1 + spec.spread);
+      const u = random();
+      const split = (mean - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mean - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mean));
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { MonteCarloRequest, MonteCarloResponse, UncertaintyResult } from "./types";
+
+export interface MonteCarloRun {
+  promise: Promise<UncertaintyResult[]>; // in request order
+  cancel: () => void;
+}
+
+// Runs the simulation in a dedicated worker so the UI thread stays responsive
+export function runMonteCarlo(request: MonteCarloRequest, onProgress?: (completed: number) => void): MonteCarloRun {
+  const worker = new Worker(new URL("./monte-carlo.worker.ts", import.meta.url), { type: "module" });
+  let rejectRun: (reason: Error) => void = () => {};
+
+  const promise = new Promise<UncertaintyResult[]>((resolve, reject) => {
+    rejectRun = reject;
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.completed);
+      } else if (message.type === 'result') {
+        worker.terminate();
+        resolve(message.results);
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new Error("Monte Carlo simulation cancelled"));
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { calculateHPI, type CalculationOptions, type MetalConcentrations, type MetalSymbol } from "@/lib/indices";
+import {
+  CANCER_RISK_THRESHOLD,
+  HAZARD_INDEX_THRESHOLD,
+  assessHealthRisk,
+  type HealthRiskParameters,
+  type Population,
+} from "@/lib/health-risk";
+import { createRandom, sampleDistribution, type RandomSource } from "./random";
+import type { MonteCarloConfig, PercentileSummary, SampledExposureParameter, UncertaintyResult } from "./types";
+
+// Critical HPI value above which water is considered unfit for drinking
+export const HPI_CRITICAL_VALUE = 100;
+
+function percentile(sorted: Float64Array, p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function summarize(values: Float64Array, threshold: number): PercentileSummary {
+  const sorted = Float64Array.from(values).sort();
+  let sum = 0;
+  let exceeding = 0;
+  sorted.forEach(value => {
+    sum += value;
+    if (value > threshold) exceeding++;
+  });
+
+  return {
+    mean: sum / sorted.length,
+    p5: percentile(sorted, 0.05),
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    exceedanceProbability: exceeding / sorted.length,
+  };
+}
+
+// Derives an independent stream per sample from its ID (FNV-1a), so a sample's result does not
+// depend on where it sits in the dataset
+function sampleSeed(seed: number, id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193);
+  return (Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(hash, 0xc2b2ae35)) >>> 0;
+}
+
+function sampleMetals(metals: MetalConcentrations, config: MonteCarloConfig, random: RandomSource): MetalConcentrations {
+  const sampled = { ...metals };
+  (Object.keys(sampled) as MetalSymbol[]).forEach(metal => {
+    sampled[metal] = sampleDistribution(metals[metal], config.concentration, random);
+  });
+  return sampled;
+}
+
+function sampleExposure(
+  parameters: HealthRiskParameters,
+  config: MonteCarloConfig,
+  random: RandomSource,
+): HealthRiskParameters {
+  const populations = { ...parameters.populations };
+  (Object.keys(populations) as Population[]).forEach(population => {
+    const exposure = { ...populations[population] };
+    (Object.keys(config.exposure) as SampledExposureParameter[]).forEach(key => {
+      exposure[key] = sampleDistribution(exposure[key], config.exposure[key], random);
+    });
+    populations[population] = exposure;
+  });
+  return { ...parameters, populations };
+}
+
+export function simulateSample(
+  metals: MetalConcentrations,
+  id: string,
+  config: MonteCarloConfig,
+  options: CalculationOptions,
+  healthRiskParameters?: HealthRiskParameters,
+): UncertaintyResult {
+  const random = createRandom(sampleSeed(config.seed, id));
+  const populations = healthRiskParameters ? (Object.keys(healthRiskParameters.populations) as Population[]) : [];
+  const hpiValues = new Float64Array(config.iterations);
+  const hazardValues = Object.fromEntries(populations.map(p => [p, new Float64Array(config.iterations)]));
+  const cancerValues = Object.fromEntries(populations.map(p => [p, new Float64Array(config.iterations)]));
+
+  for (let i = 0; i < config.iterations; i++) {
+    const sampled = sampleMetals(metals, config, random);
+    hpiValues[i] = calculateHPI(sampled, options).value;
+
+    if (healthRiskParameters) {
+      const risk = assessHealthRisk(sampled, sampleExposure(healthRiskParameters, config, random));
+      populations.forEach(population => {
+        hazardValues[population][i] = risk[population].hazardIndex;
+        cancerValues[population][i] = risk[population].cancerRisk;
+      });
+    }
+  }
+
+  const result: UncertaintyResult = {
+    iterations: config.iterations,
+    seed: config.seed,
+    hpi: summarize(hpiValues, HPI_CRITICAL_VALUE),
+  };
+
+  if (healthRiskParameters) {
+    result.hazardIndex = {} as Record<Population, PercentileSummary>;
+    result.cancerRisk = {} as Record<Population, PercentileSummary>;
+    populations.forEach(population => {
+      result.hazardIndex![population] = summarize(hazardValues[population], HAZARD_INDEX_THRESHOLD);
+      result.cancerRisk![population] = summarize(cancerValues[population], CANCER_RISK_THRESHOLD);
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,48 @@
+import type { CalculationOptions, MetalConcentrations } from "@/lib/indices";
+import type { HealthRiskParameters, Population } from "@/lib/health-risk";
+
+export type DistributionType = "normal" | "lognormal" | "triangular";
+
+// `spread` is the coefficient of variation for normal and lognormal distributions,
+// and the relative half-width around the mode for triangular ones
+export interface DistributionSpec {
+  type: DistributionType;
+  spread: number;
+}
+
+export type SampledExposureParameter = "ingestionRate" | "bodyWeight" | "exposureDuration";
+
+export interface MonteCarloConfig {
+  iterations: number;
+  seed: number;
+  concentration: DistributionSpec;
+  exposure: Record<SampledExposureParameter, DistributionSpec>;
+}
+
+export interface PercentileSummary {
+  mean: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  exceedanceProbability: number; // share of iterations above the threshold
+}
+
+export interface UncertaintyResult {
+  iterations: number;
+  seed: number;
+  hpi: PercentileSummary;
+  hazardIndex?: Record<Population, PercentileSummary>;
+  cancerRisk?: Record<Population, PercentileSummary>;
+}
+
+export interface MonteCarloRequest {
+  samples: { id: string; metals: MetalConcentrations }[];
+  config: MonteCarloConfig;
+  options: CalculationOptions;
+  healthRiskParameters?: HealthRiskParameters; // omitted when the health risk stage is disabled
+}
+
+export type MonteCarloResponse =
+  | { type: "progress"; completed: number }
+  | { type: "result"; results: UncertaintyResult[] } // one per request sample, in order
+  | { type: "error"; message: string };
@@ -0,0 +1,46 @@
+import { CONCENTRATION_UNITS } from "./units";
+import type { ColumnUnit, ConcentrationUnit } from "./types";
+
+// Lower-cases and folds the micro sign variants, e.g. "µg/L", "μg/L" and "ug/L" all become "ug/l"
+function normaliseUnit(text: string): string {
+  return text.trim().toLowerCase().replace(/[µμ]/g, 'u').replace(/\s+/g, '');
+}
+
+export function parseUnit(text: string | undefined): ConcentrationUnit | undefined {
+  if (!text) return undefined;
+  const key = normaliseUnit(text);
+  return (Object.keys(CONCENTRATION_UNITS) as ConcentrationUnit[]).find(unit =>
+    CONCENTRATION_UNITS[unit].aliases.includes(key)
+  );
+}
+
+// Splits a unit suffix off a column header: "Pb_ugL", "Pb (µg/L)", "Pb [ppb]" and "Pb mg/L" all
+// yield Pb with their unit. Headers without a recognised suffix are returned unchanged.
+export function splitHeaderUnit(header: string): { name: string; unit?: ConcentrationUnit } {
+  const trimmed = header.trim();
+  const patterns = [/^(.+?)\s*[([]\s*([^)\]]+?)\s*[)\]]$/, /^(.+?)[\s_]+(\S+)$/];
+
+  for (const pattern of patterns) {
+    const match = trimmed.match(pattern);
+    const unit = match && parseUnit(match[2]);
+    if (unit) return { name: match[1], unit };
+  }
+  return { name: trimmed };
+}
+
+// A units row lists a unit under every given column (blank cells are allowed) and at least one
+export function isUnitsRow(row: Record<string, string>, columns: string[]): boolean {
+  const cells = columns.map(col => row[col]?.trim()).filter(Boolean);
+  return cells.length > 0 && cells.every(cell => parseUnit(cell) !== undefined);
+}
+
+// Header suffix first, then the units row, then the fallback chosen by the user
+export function detectColumnUnit(header: string, unitsRowCell: string | undefined, fallback: ConcentrationUnit): ColumnUnit {
+  const fromHeader = splitHeaderUnit(header).unit;
+  if (fromHeader) return { unit: fromHeader, source: 'header' };
+
+  const fromRow = parseUnit(unitsRowCell);
+  if (fromRow) return { unit: fromRow, source: 'units-row' };
+
+  return { unit: fallback, source: 'default' };
+}
@@ -0,0 +1,20 @@
+import type { MetalSymbol } from "@/lib/indices";
+
+export type ConcentrationUnit = "g/L" | "mg/L" | "µg/L" | "ng/L" | "ppm" | "ppb" | "ppt";
+
+export interface UnitDefinition {
+  label: string;
+  factor: number; // multiplier to the canonical unit
+  aliases: string[]; // normalised spellings accepted in headers and units rows
+}
+
+// Where a column's unit was taken from, in order of precedence
+export type UnitSource = "header" | "units-row" | "default";
+
+export interface ColumnUnit {
+  unit: ConcentrationUnit;
+  source: UnitSource;
+}
+
+// Unit each element was reported in before conversion
+export type ReportedUnits = Partial<Record<MetalSymbol, ConcentrationUnit>>;
@@ -0,0 +1,19 @@
+import type { ConcentrationUnit, UnitDefinition } from "./types";
+
+// Every concentration is stored and calculated in mg/L
+export const CANONICAL_UNIT: ConcentrationUnit = 'mg/L';
+
+// Mass-per-volume and mass-fraction units; ppm/ppb/ppt assume a water density of 1 kg/L
+export const CONCENTRATION_UNITS: Record<ConcentrationUnit, UnitDefinition> = {
+  'g/L': { label: 'g/L', factor: 1e3, aliases: ['g/l', 'gl', 'g_l'] },
+  'mg/L': { label: 'mg/L', factor: 1, aliases: ['mg/l', 'mgl', 'mg_l', 'mg/dm3'] },
+  'µg/L': { label: 'µg/L', factor: 1e-3, aliases: ['ug/l', 'ugl', 'ug_l', 'mcg/l', 'mcgl'] },
+  'ng/L': { label: 'ng/L', factor: 1e-6, aliases: ['ng/l', 'ngl', 'ng_l'] },
+  ppm: { label: 'ppm', factor: 1, aliases: ['ppm'] },
+  ppb: { label: 'ppb', factor: 1e-3, aliases: ['ppb'] },
+  ppt: { label: 'ppt', factor: 1e-6, aliases: ['ppt'] },
+};
+
+export function toCanonical(value: number, unit: ConcentrationUnit): number {
+  return value * CONCENTRATION_UNITS[unit].factor;
+}
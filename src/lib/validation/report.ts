@@ -0,0 +1,18 @@
+import type { ValidationIssue, ValidationSeverity } from "./types";
+
+export function countIssues(issues: ValidationIssue[], severity: ValidationSeverity): number {
+  return issues.filter(issue => issue.severity === severity).length;
+}
+
+// Rows with at least one error, in file order
+export function rowsWithErrors(issues: ValidationIssue[]): number[] {
+  const rows = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.row));
+  return [...rows].sort((a, b) => a - b);
+}
+
+// Sample IDs that appear more than once, with the rows they appear on
+export function duplicateIds(ids: { id: string; row: number }[]): Map<string, number[]> {
+  const rowsById = new Map<string, number[]>();
+  ids.forEach(({ id, row }) => rowsById.set(id, [...(rowsById.get(id) ?? []), row]));
+  return new Map([...rowsById].filter(([, rows]) => rows.length > 1));
+}
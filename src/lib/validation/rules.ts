@@ -0,0 +1,66 @@
+import type { GeographicPoint, StudyArea } from "@/lib/geo";
+import { locateInStudyArea } from "@/lib/geo";
+import type { MetalSymbol } from "@/lib/indices";
+import { STANDARD_CATALOGUE } from "@/lib/standards";
+import type { ValidationIssue, ValidationRule, ValidationSeverity } from "./types";
+
+export const VALIDATION_RULES: Record<ValidationRule, { label: string; severity: ValidationSeverity }> = {
+  'invalid-latitude': { label: 'Latitude missing or outside -90 to 90', severity: 'error' },
+  'invalid-longitude': { label: 'Longitude missing or outside -180 to 180', severity: 'error' },
+  'invalid-concentration': { label: 'Concentration is not a non-negative number or non-detect', severity: 'error' },
+  'invalid-number': { label: 'Value is not a number', severity: 'error' },
+  'invalid-date': { label: 'Date could not be read', severity: 'warning' },
+  'invalid-utm': { label: 'UTM zone, easting or northing could not be read', severity: 'error' },
+  'ambiguous-utm-zone': { label: 'UTM zone letter S may be the southern hemisphere or latitude band S', severity: 'warning' },
+  'zero-coordinates': { label: 'Coordinates are 0, 0', severity: 'warning' },
+  'outside-study-area': { label: 'Location outside the study area', severity: 'warning' },
+  'swapped-coordinates': { label: 'Latitude and longitude look swapped', severity: 'warning' },
+  'high-concentration': { label: 'Concentration far above any drinking-water limit', severity: 'warning' },
+  'missing-detection-limit': { label: 'Non-detect reported without a detection limit', severity: 'warning' },
+  'duplicate-id': { label: 'Sample ID used more than once', severity: 'warning' },
+};
+
+// A value this many times the most lenient catalogue limit is more likely a unit or typing
+// mistake than a real measurement
+export const SUSPICIOUS_LIMIT_FACTOR = 100;
+
+// Concentration (mg/L) above which a value is flagged, or undefined where no standard sets a limit
+export function suspiciousThreshold(metal: MetalSymbol): number | undefined {
+  const limits = STANDARD_CATALOGUE.map(set => set.limits[metal]?.permissible).filter(limit => limit !== undefined);
+  return limits.length > 0 ? Math.max(...limits) * SUSPICIOUS_LIMIT_FACTOR : undefined;
+}
+
+// Warning for a point outside the configured study area, most often a swapped latitude/longitude
+export function studyAreaIssue(
+  point: GeographicPoint,
+  area: StudyArea,
+  row: number,
+  column: string | undefined,
+  value: string
+): ValidationIssue | undefined {
+  const where = locateInStudyArea(point, area);
+  if (where === 'swapped') {
+    return createIssue('swapped-coordinates', row, column, value, 'Outside the study area, but inside it with latitude and longitude exchanged');
+  }
+  if (where === 'outside') {
+    return createIssue('outside-study-area', row, column, value, `${point.latitude.toFixed(4)}, ${point.longitude.toFixed(4)} is outside the study area`);
+  }
+  return undefined;
+}
+
+export function createIssue(
+  rule: ValidationRule,
+  row: number,
+  column: string | undefined,
+  value: unknown,
+  message: string
+): ValidationIssue {
+  return {
+    row,
+    column,
+    value: value === undefined || value === null ? '' : String(value),
+    rule,
+    severity: VALIDATION_RULES[rule].severity,
+    message,
+  };
+}
@@ -0,0 +1,33 @@
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationRule =
+  | "invalid-latitude"
+  | "invalid-longitude"
+  | "invalid-concentration"
+  | "invalid-number"
+  | "invalid-date"
+  | "invalid-utm"
+  | "ambiguous-utm-zone"
+  | "zero-coordinates"
+  | "outside-study-area"
+  | "swapped-coordinates"
+  | "high-concentration"
+  | "missing-detection-limit"
+  | "duplicate-id";
+
+// One problem found in one cell of the uploaded table. Errors quarantine the row; warnings
+// are reported but the row is still imported.
+export interface ValidationIssue {
+  row: number; // 1-based row of the source sheet
+  column?: string; // source column header
+  value: string; // cell value as it appeared in the file
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  issues: ValidationIssue[];
+  valid: T; // parsed rows without errors, warnings included
+  quarantined: number[]; // rows held back because of at least one error
+}
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Version from package.json, defined in vite.config.ts
+declare const __APP_VERSION__: string;